@@ -0,0 +1,19 @@
+import { defineConfig } from "@vscode/test-cli";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+// The suites run in a throwaway folder; the integration tests map it to the fake tf (src/test/fakeTf.ts).
+// tfPath points nowhere, so nothing reaches a real client before the fake is swapped in.
+const workspaceFolder = fs.mkdtempSync(path.join(os.tmpdir(), "vstfs-test-"));
+fs.writeFileSync(path.join(workspaceFolder, ".vstfs.json"), JSON.stringify({
+  workspace: "fakews",
+  serverPath: "$/Proj/Main",
+  tfPath: path.join(workspaceFolder, "no-tf-installed")
+}, null, 2));
+
+export default defineConfig({
+  files: "out/src/test/**/*.test.js",
+  workspaceFolder,
+  mocha: { ui: "tdd", timeout: 20000 }
+});
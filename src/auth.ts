@@ -0,0 +1,28 @@
+import * as vscode from "vscode";
+
+// SecretStorage key of the personal access token
+export const PAT_SECRET_KEY = "vstfs.pat";
+
+export type AuthType = "integrated" | "pat";
+
+const MASK = "********";
+
+export function redact(text: string, secrets: (string | undefined)[]): string {
+  return secrets.reduce<string>((t, s) => (s ? t.split(s).join(MASK) : t), text);
+}
+
+// Output channel that masks secrets in everything written to it, so a PAT passed to TF.exe
+// (or echoed back in an error) never ends up in the VSTFS log
+export function createRedactingChannel(name: string, secrets: () => (string | undefined)[]): vscode.OutputChannel {
+  const channel = vscode.window.createOutputChannel(name);
+  return {
+    get name() { return channel.name; },
+    append: value => channel.append(redact(value, secrets())),
+    appendLine: value => channel.appendLine(redact(value, secrets())),
+    replace: value => channel.replace(redact(value, secrets())),
+    clear: () => channel.clear(),
+    show: (...args: any[]) => (channel.show as (...a: any[]) => void)(...args),
+    hide: () => channel.hide(),
+    dispose: () => channel.dispose()
+  };
+}
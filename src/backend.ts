@@ -0,0 +1,32 @@
+import * as vscode from "vscode";
+import { TFVC, TFHistoryItem, TFPendingItem, TFShelveset, TFLabel } from "./tfvc";
+import { VstfsConfig } from "./config";
+import { RestBackend } from "./restBackend";
+
+// Read operations the views and panels need. TFVC (TF.exe) implements all of them;
+// RestBackend answers them from the server's _apis/tfvc endpoints instead.
+export interface TfvcBackend {
+  history(target?: string, max?: number): Promise<TFHistoryItem[]>;
+  changeset(id: number): Promise<TFHistoryItem | null>;
+  pendingChanges(): Promise<TFPendingItem[]>;
+  getFileAtChangeset(file: string, id: number): Promise<string>;
+  listBranches(): Promise<string[]>;
+  shelvesets(owner?: string): Promise<TFShelveset[]>;
+  labels(filter?: string): Promise<TFLabel[]>;
+}
+
+export type BackendKind = "tf" | "rest";
+
+// Writes (check-in, get, merge, ...) always go through TF.exe; only reads are switched
+export function createBackend(
+  config: VstfsConfig,
+  tfvc: TFVC,
+  output: vscode.OutputChannel,
+  getToken: () => Promise<string | undefined>
+): TfvcBackend {
+  if (config.backend === "rest") {
+    output.appendLine("VSTFS: Using the REST backend for history, changesets, branches, shelvesets and labels");
+    return new RestBackend(config, tfvc, output, getToken);
+  }
+  return tfvc;
+}
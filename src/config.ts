@@ -1,6 +1,9 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
+import { CheckinPolicyConfig } from "./policies";
+import type { BackendKind } from "./backend";
+import { AuthType, PAT_SECRET_KEY } from "./auth";
 
 export interface VstfsConfig {
   serverUrl: string;
@@ -9,31 +12,30 @@ export interface VstfsConfig {
   tfPath: string;
   root: string;
   serverPath: string; // Add server path for TFVC operations
-  authType: "integrated";
-  auth: { type: "integrated" };
+  authType: AuthType;
+  auth: { type: AuthType; token?: string };
+  policies?: CheckinPolicyConfig;
+  autoPromote: boolean;
+  backend: BackendKind;   // where read operations come from; writes always use TF.exe
 }
 
-export async function loadConfig(secrets: vscode.SecretStorage): Promise<VstfsConfig> {
-  const wsFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? ".";
-  const jsonPath = path.join(wsFolder, ".vstfs.json");
-
-  let fileConfig: Partial<VstfsConfig> = {};
-  if (fs.existsSync(jsonPath)) {
-    try {
-      fileConfig = JSON.parse(fs.readFileSync(jsonPath, "utf-8"));
-    } catch (err) {
-      vscode.window.showErrorMessage(`Failed to parse .vstfs.json: ${err}`);
-    }
-  }
+// Each workspace folder has its own .vstfs.json and folder-level settings; without a folder
+// the first workspace folder (or ".") is used
+export async function loadConfig(secrets: vscode.SecretStorage, folder?: vscode.WorkspaceFolder): Promise<VstfsConfig> {
+  const scope = folder ?? vscode.workspace.workspaceFolders?.[0];
+  const wsFolder = scope?.uri.fsPath ?? ".";
+  const fileConfig = readConfigFile(wsFolder);
 
-  const cfg = vscode.workspace.getConfiguration("vstfs");
+  const cfg = vscode.workspace.getConfiguration("vstfs", scope?.uri);
 
-  // Default fallback path for TF.exe (your provided path)
-  const defaultTfPath =
+  // Default: Visual Studio 2022's TF.exe on Windows, the Team Explorer Everywhere `tf` on the PATH elsewhere
+  const defaultTfPath = process.platform !== "win32" ? "tf" :
     "C:\\\\Program Files\\\\Microsoft Visual Studio\\\\2022\\\\Community\\\\Common7\\\\IDE\\\\CommonExtensions\\\\Microsoft\\\\TeamFoundation\\\\Team Explorer\\\\TF.exe".replace(/\\\\/g, "\\");
 
-  // Always use integrated authentication
-  const authType: "integrated" = "integrated";
+  // Integrated Windows authentication unless a personal access token is requested;
+  // the token itself only ever lives in SecretStorage
+  const authType: AuthType = (fileConfig.authType || cfg.get<AuthType>("authType")) === "pat" ? "pat" : "integrated";
+  const token = authType === "pat" ? await secrets.get(PAT_SECRET_KEY) : undefined;
 
   return {
     serverUrl: fileConfig.serverUrl || cfg.get<string>("serverUrl") || "",
@@ -41,8 +43,27 @@ export async function loadConfig(secrets: vscode.SecretStorage): Promise<VstfsCo
     workspace: fileConfig.workspace || cfg.get<string>("workspace") || "",
     tfPath: (fileConfig.tfPath || cfg.get<string>("tfPath") || defaultTfPath),
     root: fileConfig.root || cfg.get<string>("root") || wsFolder,
-    serverPath: fileConfig.serverPath || cfg.get<string>("serverPath") || `$/Era/Prototypes/Overpowered`,
+    serverPath: fileConfig.serverPath || cfg.get<string>("serverPath") || "",
     authType: authType,
-    auth: { type: authType }
+    auth: { type: authType, token },
+    policies: fileConfig.policies || cfg.get<CheckinPolicyConfig>("policies"),
+    autoPromote: fileConfig.autoPromote ?? cfg.get<boolean>("autoPromote") ?? false,
+    backend: fileConfig.backend || cfg.get<BackendKind>("backend") || "tf"
   };
 }
+
+export function configFilePath(root: string): string {
+  return path.join(root, ".vstfs.json");
+}
+
+// A folder's .vstfs.json; its values take precedence over the vstfs.* settings
+export function readConfigFile(root: string): Partial<VstfsConfig> {
+  const jsonPath = configFilePath(root);
+  if (!fs.existsSync(jsonPath)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(jsonPath, "utf-8"));
+  } catch (err) {
+    vscode.window.showErrorMessage(`Failed to parse ${jsonPath}: ${err}`);
+    return {};
+  }
+}
@@ -0,0 +1,78 @@
+// Line diff (Myers O(ND)) used where TFVC has no CLI equivalent, e.g. annotate
+
+export function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+// Pairs [indexInA, indexInB] of lines common to both, in ascending order
+export function commonLines(a: string[], b: string[]): [number, number][] {
+  // Trim shared prefix/suffix first; most revisions only touch a small part of the file
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < start; i++) pairs.push([i, i]);
+  for (const [i, j] of myers(a.slice(start, endA), b.slice(start, endB))) {
+    pairs.push([i + start, j + start]);
+  }
+  for (let i = 0; i < a.length - endA; i++) pairs.push([endA + i, endB + i]);
+  return pairs;
+}
+
+function myers(a: string[], b: string[]): [number, number][] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return [];
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Only the diagonals reachable at step d are kept, so memory is O(D^2) instead of O(D * (N + M))
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return [];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): [number, number][] {
+  const pairs: [number, number][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const at = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      pairs.push([x - 1, y - 1]);
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      x = prevX;
+      y = prevY;
+    }
+  }
+  return pairs.reverse();
+}
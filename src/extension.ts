@@ -1,82 +1,161 @@
 import * as vscode from "vscode";
-import { TFVC } from "./tfvc";
-import { loadConfig } from "./config";
+import { TFConflict, TFPendingItem, TFShelveset, TFWorkspace, TFWorkspaceLocation } from "./tfvc";
+import { TfvcFolder, TfvcFolders } from "./folders";
+import { evaluatePolicies } from "./policies";
 import { PendingChangesView } from "./views/pendingChangesView";
 import { BranchesView } from "./views/branchesView";
-import { HistoryView } from "./views/historyView";
+import { HistoryNode, HistoryView } from "./views/historyView";
+import { ShelvesetsView } from "./views/shelvesetsView";
+import { ConflictsView } from "./views/conflictsView";
+import { TeamPendingView } from "./views/teamPendingView";
+import { WorkspaceNode, WorkspacesView } from "./views/workspacesView";
 import { ChangesetPanel } from "./ui/changesetPanel";
+import { ShelvesetPanel } from "./ui/shelvesetPanel";
+import { pickWorkItems } from "./ui/workItemPicker";
+import { CheckInRequest, PendingChangesPanel } from "./ui/pendingChangesPanel";
+import { AnnotateController } from "./providers/annotate";
+import { PAT_SECRET_KEY, createRedactingChannel } from "./auth";
+import { configFilePath, readConfigFile } from "./config";
+import { PendingSection, key } from "./pendingStore";
+import { CommandRunner, isCancelled, withCancellation } from "./runner";
+import { LATEST_VERSION, TFVC_SCHEME, WORKSPACE_VERSION, TfvcContentProvider, toTfvcUri } from "./providers/contentProvider";
 import * as path from "path";
 
-let tfvc: TFVC;
+let folders: TfvcFolders;
 let pendingView: PendingChangesView;
 let branchesView: BranchesView;
 let historyView: HistoryView;
-let currentConfig: any;
-
-export async function activate(ctx: vscode.ExtensionContext) {
-  const cfg = await loadConfig(ctx.secrets);
-  currentConfig = cfg;
-  
-  // Get the correct working directory - this should be the project folder, not the extension folder
-  let workingDir: string;
-  
-  if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-    // Use the first workspace folder (the project folder)
-    workingDir = vscode.workspace.workspaceFolders[0].uri.fsPath;
-  } else if (cfg.root && cfg.root !== ".") {
-    // Use the configured root path
-    workingDir = cfg.root;
-  } else {
-    // Fallback to current working directory
-    workingDir = process.cwd();
-  }
-  
+let shelvesetsView: ShelvesetsView;
+let conflictsView: ConflictsView;
+let teamView: TeamPendingView;
+let workspacesView: WorkspacesView;
+
+// Returned from activate; the integration tests run the extension against a fake tf through it
+export interface VstfsApi {
+  useRunner(runner: CommandRunner): Promise<void>;
+}
+
+export async function activate(ctx: vscode.ExtensionContext): Promise<VstfsApi> {
+  // Every token seen this session stays masked, even after it's replaced or cleared
+  const knownTokens = new Set<string>();
+  const rememberToken = (token?: string) => { if (token) knownTokens.add(token); };
+  rememberToken(await ctx.secrets.get(PAT_SECRET_KEY));
+  rememberToken(process.env.AZURE_DEVOPS_EXT_PAT);
+  const output = createRedactingChannel("VSTFS", () => [...knownTokens]);
+
+  // One TFVC context (config, TF.exe, backend, pending changes, SCM provider) per workspace folder
+  folders = new TfvcFolders(ctx.secrets, {
+    output,
+    // REST calls use the stored PAT, falling back to Azure CLI's variable so an existing setup just works
+    getToken: async () => (await ctx.secrets.get(PAT_SECRET_KEY)) || process.env.AZURE_DEVOPS_EXT_PAT,
+    // Pended by edits and explorer operations; detected changes wait for the next command or refresh
+    onPended: folder => refreshPending(folder, [])
+  });
+  ctx.subscriptions.push(folders);
+  await folders.load();
+
   console.log(`VSTFS: Extension code location: ${__dirname}`);
-  console.log(`VSTFS: Using working directory: ${workingDir}`);
   console.log(`VSTFS: Workspace folders: ${vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath).join(', ')}`);
-  console.log(`VSTFS: Config root: ${cfg.root}`);
+  console.log(`VSTFS: TFVC folders: ${folders.all.map(f => f.root).join(', ')}`);
   console.log(`VSTFS: Process cwd: ${process.cwd()}`);
-  
-  const output = vscode.window.createOutputChannel("VSTFS");
-  
-  tfvc = new TFVC(cfg.tfPath, workingDir, process.env, cfg, output);
 
   const withBusy = async <T>(title: string, task: () => Promise<T>) => {
     try {
-      return await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title }, async () => {
-        output.appendLine(`[${new Date().toLocaleTimeString()}] ${title}`);
-        const result = await task();
-        return result;
-      });
+      return await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+        async (_progress, token) => {
+          output.appendLine(`[${new Date().toLocaleTimeString()}] ${title}`);
+          // Cancel stops the TF.exe processes the task started and the ones it still queued
+          const abort = new AbortController();
+          const onCancel = token.onCancellationRequested(() => abort.abort());
+          try {
+            return await withCancellation(abort.signal, task);
+          } finally {
+            onCancel.dispose();
+          }
+        }
+      );
     } catch (e: any) {
+      if (isCancelled(e)) {
+        output.appendLine(`${title} cancelled`);
+        throw new vscode.CancellationError();
+      }
       output.appendLine(String(e?.stack || e));
       vscode.window.showErrorMessage(e?.message || String(e));
       throw e;
     }
   };
 
+  // Server file versions (tfvc:/$/path?C123) are served from memory instead of temp files
+  const contentProvider = new TfvcContentProvider(serverPath => folders.forServerPath(serverPath));
+  ctx.subscriptions.push(contentProvider, vscode.workspace.registerTextDocumentContentProvider(TFVC_SCHEME, contentProvider));
+
   const reg = (cmd: string, fn: (...a: any[]) => any) => ctx.subscriptions.push(vscode.commands.registerCommand(cmd, fn));
 
-  // Views
-  pendingView = new PendingChangesView(tfvc);
-  branchesView = new BranchesView(tfvc);
-  historyView = new HistoryView(tfvc);
+  // Pending Changes, History and Branches group by folder; the other views show one folder,
+  // following the active editor
+  let shown = folders.active;
+  pendingView = new PendingChangesView(folders);
+  branchesView = new BranchesView(folders);
+  historyView = new HistoryView(folders);
+  shelvesetsView = new ShelvesetsView(shown.backend);
+  conflictsView = new ConflictsView(shown.tfvc);
+  teamView = new TeamPendingView(shown.store);
+  workspacesView = new WorkspacesView(shown.tfvc, shown.config.workspace);
+
+  ctx.subscriptions.push(
+    folders.onDidChangePending(folder => {
+      pendingView.refresh();
+      if (folder === shown) teamView.refresh();
+    }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("vstfs.showOtherUsersCheckouts")) folders.all.forEach(f => void f.store.refresh());
+    })
+  );
+
+  // Shelvesets can be replaced in place, so shelved content is re-fetched after a refresh
+  const refreshShelvesets = () => {
+    contentProvider.invalidateShelvedVersions();
+    shelvesetsView.refresh();
+  };
+
+  // Views update when the folder's store fires; without a folder every folder is reloaded.
+  // Commands can leave new detected changes behind, so they are looked for again by default.
+  const refreshPending = (folder?: TfvcFolder, sections: PendingSection[] = ["candidates"]) => {
+    contentProvider.invalidateFloatingVersions();
+    (folder ? [folder] : folders.all).forEach(f => void f.store.refresh(sections));
+  };
 
   ctx.subscriptions.push(
     vscode.window.registerTreeDataProvider("vstfs.pendingChanges", pendingView),
     vscode.window.registerTreeDataProvider("vstfs.branches", branchesView),
-    vscode.window.registerTreeDataProvider("vstfs.history", historyView)
+    vscode.window.registerTreeDataProvider("vstfs.history", historyView),
+    vscode.window.registerTreeDataProvider("vstfs.shelvesets", shelvesetsView),
+    vscode.window.registerTreeDataProvider("vstfs.teamPendingChanges", teamView),
+    vscode.window.registerTreeDataProvider("vstfs.workspaces", workspacesView)
   );
 
   // Auto-refresh when views become visible
   const pendingTreeView = vscode.window.createTreeView("vstfs.pendingChanges", { treeDataProvider: pendingView });
   const branchesTreeView = vscode.window.createTreeView("vstfs.branches", { treeDataProvider: branchesView });
   const historyTreeView = vscode.window.createTreeView("vstfs.history", { treeDataProvider: historyView });
+  const shelvesetsTreeView = vscode.window.createTreeView("vstfs.shelvesets", { treeDataProvider: shelvesetsView });
+  const conflictsTreeView = vscode.window.createTreeView("vstfs.conflicts", { treeDataProvider: conflictsView });
+  const workspacesTreeView = vscode.window.createTreeView("vstfs.workspaces", { treeDataProvider: workspacesView });
+  const teamTreeView = vscode.window.createTreeView("vstfs.teamPendingChanges", { treeDataProvider: teamView });
+  // Everyone's pending changes are loaded only while the Team Pending Changes view shows them
+  let teamWatch: vscode.Disposable | undefined;
+  const watchTeam = () => {
+    teamWatch?.dispose();
+    teamWatch = teamTreeView.visible ? shown.store.watch("team") : undefined;
+  };
+  watchTeam();
+  ctx.subscriptions.push({ dispose: () => teamWatch?.dispose() });
 
   ctx.subscriptions.push(
     pendingTreeView.onDidChangeVisibility(e => {
       if (e.visible) {
-        pendingView.refresh();
+        folders.all.forEach(f => void f.store.refresh());
       }
     }),
     branchesTreeView.onDidChangeVisibility(e => {
@@ -88,38 +167,131 @@ export async function activate(ctx: vscode.ExtensionContext) {
       if (e.visible) {
         historyView.refresh();
       }
+    }),
+    shelvesetsTreeView.onDidChangeVisibility(e => {
+      if (e.visible) {
+        refreshShelvesets();
+      }
+    }),
+    workspacesTreeView.onDidChangeVisibility(e => {
+      if (e.visible) {
+        workspacesView.refresh();
+      }
+    }),
+    teamTreeView.onDidChangeVisibility(e => {
+      watchTeam();
+      if (e.visible) {
+        void shown.store.refresh();
+      }
+    })
+  );
+
+  // Status bar
+  const status = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+  status.command = "workbench.view.extension.vstfs";
+  status.show();
+  ctx.subscriptions.push(status);
+
+  const describeViews = () => {
+    const name = folders.all.length > 1 ? shown.name : undefined;
+    const owner = shelvesetsView.owner === undefined ? undefined : shelvesetsView.owner === "*" ? "All users" : shelvesetsView.owner;
+    shelvesetsTreeView.description = [name, owner].filter(Boolean).join(" • ") || undefined;
+    conflictsTreeView.description = name;
+    teamTreeView.description = name;
+    workspacesTreeView.description = name;
+    status.text = `TFVC: ${shown.config.workspace || "workspace"}@${shown.config.serverUrl || "server"}`;
+    status.tooltip = `VSTFS configuration of ${shown.root}`;
+  };
+
+  // Points the single-folder views at another folder
+  const showFolder = (folder: TfvcFolder) => {
+    shown = folder;
+    watchTeam();
+    shelvesetsView.backend = folder.backend;
+    conflictsView.tfvc = folder.tfvc;
+    teamView.store = folder.store;
+    workspacesView.tfvc = folder.tfvc;
+    workspacesView.current = folder.config.workspace;
+    describeViews();
+    refreshShelvesets();
+    conflictsView.refresh();
+    teamView.refresh();
+    workspacesView.refresh();
+  };
+  describeViews();
+
+  ctx.subscriptions.push(
+    folders.onDidChangeActive(folder => showFolder(folder)),
+    folders.onDidChange(() => {
+      pendingView.refresh();
+      historyView.refresh();
+      branchesView.refresh();
+      showFolder(folders.active);
+      folders.all.forEach(f => void f.store.refresh());
     })
   );
 
   // Refresh helpers for menus
-  reg("vstfs.pendingChanges.refresh", () => pendingView.refresh());
+  reg("vstfs.pendingChanges.refresh", () => refreshPending());
   reg("vstfs.branches.refresh", () => branchesView.refresh());
   reg("vstfs.history.refresh", () => historyView.refresh());
+  reg("vstfs.shelvesets.refresh", () => refreshShelvesets());
+  reg("vstfs.conflicts.refresh", () => conflictsView.refresh());
+  reg("vstfs.teamPendingChanges.refresh", () => refreshPending(shown));
+  reg("vstfs.teamPendingChanges.groupByUser", () => teamView.setGrouping("user"));
+  reg("vstfs.teamPendingChanges.groupByFile", () => teamView.setGrouping("file"));
 
   // Commands
   reg("vstfs.undoAll", async () => {
+    const folder = await folders.pick();
+    if (!folder) return;
     const confirm = await vscode.window.showWarningMessage(
-      "Undo ALL pending changes in this workspace?",
+      `Undo ALL pending changes in ${folder.name}?`,
       { modal: true },
       "Yes"
     );
     if (confirm !== "Yes") return;
     await withBusy("TFVC: Undoing all pending changes...", async () => {
-      await tfvc.undo();
-      pendingView.refresh();
+      await folder.tfvc.undo();
+      refreshPending(folder);
       vscode.window.showInformationMessage("TFVC: Undid all pending changes.");
     });
   });
 
-  reg("vstfs.getLatest", () => withBusy("TFVC: Getting latest...", async () => {
-    await tfvc.getLatest(".");
-    pendingView.refresh();
-    vscode.window.showInformationMessage("TFVC: Get Latest completed.");
-  }));
+  // Refreshes the Conflicts view and tells the user when get/merge left conflicts behind
+  const reportConflicts = async (folder: TfvcFolder): Promise<boolean> => {
+    conflictsView.refresh();
+    const conflicts = await folder.tfvc.conflicts().catch(() => [] as TFConflict[]);
+    if (conflicts.length === 0) return false;
+    vscode.window.showWarningMessage(
+      `TFVC: ${conflicts.length} conflict(s) need to be resolved.`,
+      "Show Conflicts"
+    ).then(selection => {
+      if (selection === "Show Conflicts") {
+        if (folder !== shown) showFolder(folder);
+        vscode.commands.executeCommand("vstfs.conflicts.focus");
+      }
+    });
+    return true;
+  };
+
+  reg("vstfs.getLatest", async () => {
+    const folder = await folders.pick();
+    if (!folder) return;
+    await withBusy("TFVC: Getting latest...", async () => {
+      await folder.tfvc.getLatest(".");
+      refreshPending(folder);
+      if (!(await reportConflicts(folder))) {
+        vscode.window.showInformationMessage("TFVC: Get Latest completed.");
+      }
+    });
+  });
 
   reg("vstfs.checkIn", async () => {
+    const folder = await folders.pick();
+    if (!folder) return;
     // First, get the pending changes to show what will be checked in
-    const pending = await tfvc.pendingChanges();
+    const pending = await folder.tfvc.pendingChanges();
     if (pending.length === 0) {
       vscode.window.showInformationMessage("TFVC: No pending changes to check in.");
       return;
@@ -161,20 +333,160 @@ export async function activate(ctx: vscode.ExtensionContext) {
       placeHolder: "Enter a description of your changes..."
     });
     if (comment === undefined) return;
+    const workItems = await pickWorkItems(ctx.workspaceState, comment);
+    if (workItems === undefined) return;
+    const selectedFiles = selectedItems.map(item => item.file);
+    const finalComment = await applyPolicies(folder, comment, workItems, selectedFiles, false);
+    if (finalComment === undefined) return;
     
     await withBusy("TFVC: Checking in...", async () => {
       // Check in only the selected files
-      const selectedFiles = selectedItems.map(item => item.file);
-      await tfvc.checkIn(comment, selectedFiles);
-      pendingView.refresh();
+      await folder.tfvc.checkIn(finalComment, selectedFiles, { workItems });
+      refreshPending(folder);
       historyView.refresh();
       vscode.window.showInformationMessage(`TFVC: Check In completed for ${selectedItems.length} items.`);
     });
   });
 
+  // Runs the local check-in policies; returns the comment to use (with any override reason appended),
+  // or undefined when the check-in should not proceed. A check-in of everything (all) also takes the
+  // detected changes that autoPromote pends along, so those are evaluated too.
+  const applyPolicies = async (folder: TfvcFolder, comment: string, workItems: number[], files: string[], all: boolean): Promise<string | undefined> => {
+    if (!folder.config.policies) return comment;
+    const failures = await withBusy("TFVC: Evaluating check-in policies...", async () => {
+      const promoted = all && folder.config.autoPromote
+        ? (await folder.tfvc.candidateChanges().catch(() => [])).map(c => c.file)
+        : [];
+      return evaluatePolicies(folder.config.policies, { comment, workItems, files: [...new Set([...files, ...promoted])], root: folder.root });
+    });
+    if (failures.length === 0) return comment;
+
+    failures.forEach(f => output.appendLine(`VSTFS: Policy failure [${f.policy}] ${f.message}`));
+    const choice = await vscode.window.showWarningMessage(
+      `TFVC: ${failures.length} check-in policy failure(s).`,
+      { modal: true, detail: failures.map(f => `• ${f.policy}: ${f.message}`).join("\n") },
+      "Override..."
+    );
+    if (choice !== "Override...") return undefined;
+
+    const reason = await vscode.window.showInputBox({
+      prompt: "Reason for overriding check-in policies",
+      placeHolder: "Required — it is added to the check-in comment",
+      validateInput: v => v.trim() ? undefined : "An override reason is required."
+    });
+    if (!reason) return undefined;
+    output.appendLine(`VSTFS: Check-in policies overridden: ${reason}`);
+    return `${comment}${comment ? "\n\n" : ""}Policy override: ${reason.trim()}`;
+  };
+
+  // SCM view commands
+  reg("vstfs.scm.checkIn", async (sourceControl?: vscode.SourceControl) => {
+    const folder = await folders.pick(sourceControl);
+    if (!folder) return;
+    const scm = folder.scm;
+    const files = scm.includedFiles();
+    if (files.length === 0) {
+      vscode.window.showInformationMessage("TFVC: No included changes to check in.");
+      return;
+    }
+    const comment = scm.sourceControl.inputBox.value;
+    const workItems = await pickWorkItems(ctx.workspaceState, comment);
+    if (workItems === undefined) return;
+    const finalComment = await applyPolicies(folder, comment, workItems, files, !scm.hasExcluded());
+    if (finalComment === undefined) return;
+    await withBusy("TFVC: Checking in...", async () => {
+      // Pass explicit files only when something was excluded, otherwise check in everything
+      await folder.tfvc.checkIn(finalComment, scm.hasExcluded() ? files : undefined, { workItems });
+      scm.sourceControl.inputBox.value = "";
+      refreshPending(folder);
+      historyView.refresh();
+      vscode.window.showInformationMessage(`TFVC: Check In completed for ${files.length} items.`);
+    });
+  });
+
+  reg("vstfs.openPendingChangesPanel", async (sourceControl?: vscode.SourceControl) => {
+    const folder = await folders.pick(sourceControl);
+    if (!folder) return;
+    const scm = folder.scm;
+    PendingChangesPanel.show(scm, async (req: CheckInRequest) => {
+      const files = scm.includedFiles();
+      if (files.length === 0) {
+        vscode.window.showInformationMessage("TFVC: No included changes to check in.");
+        return false;
+      }
+      const finalComment = await applyPolicies(folder, req.comment, req.workItems, files, !scm.hasExcluded());
+      if (finalComment === undefined) return false;
+      await withBusy("TFVC: Checking in...", async () => {
+        await folder.tfvc.checkIn(finalComment, scm.hasExcluded() ? files : undefined, { workItems: req.workItems, notes: req.notes });
+        refreshPending(folder);
+        historyView.refresh();
+        vscode.window.showInformationMessage(`TFVC: Check In completed for ${files.length} items.`);
+      });
+      return true;
+    });
+  });
+
+  reg("vstfs.scm.promote", async (...states: vscode.SourceControlResourceState[]) => {
+    const folder = await folders.pick(states[0]);
+    if (!folder) return;
+    await withBusy("TFVC: Promoting detected changes...", async () => {
+      await folder.scm.promote(states);
+    });
+  });
+
+  reg("vstfs.promote", async () => {
+    const folder = await folders.pick();
+    if (!folder) return;
+    const candidates = await withBusy("TFVC: Detecting changes...", () => folder.tfvc.candidateChanges());
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage("TFVC: No detected changes to promote.");
+      return;
+    }
+    const selected = await vscode.window.showQuickPick(
+      candidates.map(c => ({ label: `${c.action}: ${path.basename(c.file)}`, description: c.file, item: c })),
+      { canPickMany: true, placeHolder: "Select detected changes to promote", title: `Promote (${candidates.length} detected)` }
+    );
+    if (!selected || selected.length === 0) return;
+    await withBusy(`TFVC: Promoting ${selected.length} changes...`, async () => {
+      await folder.tfvc.promote(selected.map(s => s.item));
+      refreshPending(folder);
+    });
+  });
+
+  reg("vstfs.explainIgnore", (uri?: vscode.Uri) => {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!target || target.scheme !== "file") return;
+    const name = path.basename(target.fsPath);
+    const folder = folders.forUri(target);
+    if (!folder) {
+      vscode.window.showInformationMessage(`TFVC: ${name} is not in a TFVC folder.`);
+      return;
+    }
+    const { ignored, rule } = folder.tfvc.ignore.explain(target.fsPath);
+    const where = rule ? `rule "${rule.text}" (line ${rule.line} of ${rule.source})` : "";
+    if (ignored) {
+      vscode.window.showInformationMessage(`TFVC: ${name} is ignored by ${where}.`);
+    } else if (rule) {
+      vscode.window.showInformationMessage(`TFVC: ${name} is not ignored; it is re-included by ${where}.`);
+    } else {
+      vscode.window.showInformationMessage(`TFVC: ${name} is not matched by any .tfignore rule.`);
+    }
+  });
+
+  reg("vstfs.scm.exclude", (...states: vscode.SourceControlResourceState[]) => {
+    if (states[0]) folders.forUri(states[0].resourceUri)?.scm.exclude(states);
+  });
+  reg("vstfs.scm.include", (...states: vscode.SourceControlResourceState[]) => {
+    if (states[0]) folders.forUri(states[0].resourceUri)?.scm.include(states);
+  });
+  reg("vstfs.scm.refresh", (sourceControl?: vscode.SourceControl) =>
+    refreshPending(sourceControl?.rootUri && folders.forUri(sourceControl.rootUri)));
+
   reg("vstfs.checkInAll", async () => {
+    const folder = await folders.pick();
+    if (!folder) return;
     // Check in all pending changes without file selection
-    const pending = await tfvc.pendingChanges();
+    const pending = await folder.tfvc.pendingChanges();
     if (pending.length === 0) {
       vscode.window.showInformationMessage("TFVC: No pending changes to check in.");
       return;
@@ -186,17 +498,23 @@ export async function activate(ctx: vscode.ExtensionContext) {
       placeHolder: "Enter a description of your changes..."
     });
     if (comment === undefined) return;
+    const workItems = await pickWorkItems(ctx.workspaceState, comment);
+    if (workItems === undefined) return;
+    const finalComment = await applyPolicies(folder, comment, workItems, pending.map(item => item.file), true);
+    if (finalComment === undefined) return;
     
     await withBusy("TFVC: Checking in all changes...", async () => {
-      await tfvc.checkIn(comment); // No file parameter = check in all
-      pendingView.refresh();
+      await folder.tfvc.checkIn(finalComment, undefined, { workItems }); // No file parameter = check in all
+      refreshPending(folder);
       historyView.refresh();
       vscode.window.showInformationMessage(`TFVC: Check In completed for all ${pending.length} items.`);
     });
   });
 
   reg("vstfs.createBranch", async () => {
-    const branches = await tfvc.listBranches().catch(() => []);
+    const folder = await folders.pick();
+    if (!folder) return;
+    const branches = await folder.backend.listBranches().catch(() => []);
     const src = await vscode.window.showQuickPick(branches, { 
       placeHolder: "Select source branch (path)",
       title: "Create Branch - Source"
@@ -209,14 +527,16 @@ export async function activate(ctx: vscode.ExtensionContext) {
     });
     if (!dst) return;
     await withBusy(`TFVC: Creating branch ${dst} from ${src}...`, async () => {
-      await tfvc.createBranch(src, dst);
+      await folder.tfvc.createBranch(src, dst);
       branchesView.refresh();
       vscode.window.showInformationMessage(`TFVC: Created branch ${dst}`);
     });
   });
 
   reg("vstfs.merge", async () => {
-    const branches = await tfvc.listBranches().catch(() => []);
+    const folder = await folders.pick();
+    if (!folder) return;
+    const branches = await folder.backend.listBranches().catch(() => []);
     const src = await vscode.window.showQuickPick(branches, { 
       placeHolder: "Select source branch",
       title: "Merge - Source Branch"
@@ -227,12 +547,293 @@ export async function activate(ctx: vscode.ExtensionContext) {
       title: "Merge - Target Branch"
     });
     if (!dst) return;
+
+    const mode = await vscode.window.showQuickPick(
+      [
+        { label: "All changes", description: "Merge everything not yet merged", mode: "all" as const },
+        { label: "Selected changesets...", description: "Cherry-pick individual changesets", mode: "select" as const },
+        { label: "Changeset range...", description: "Merge a contiguous range of candidates", mode: "range" as const }
+      ],
+      { placeHolder: "What do you want to merge?", title: "Merge - Changesets" }
+    );
+    if (!mode) return;
+
+    // Each run of adjacent candidates becomes one merge; non-contiguous selections merge one run after another
+    const ranges: { from: number; to: number }[] = [];
+    if (mode.mode !== "all") {
+      const candidates = await withBusy(`TFVC: Loading merge candidates from ${src}...`, () => folder.tfvc.mergeCandidates(src, dst));
+      if (candidates.length === 0) {
+        vscode.window.showInformationMessage(`TFVC: No merge candidates from ${src} to ${dst}.`);
+        return;
+      }
+      const candidateItems = candidates.map((c, index) => ({
+        label: `C${c.changesetId}`,
+        description: `${c.author} • ${isNaN(c.date.getTime()) ? "" : c.date.toLocaleDateString()}`,
+        detail: c.comment?.split(/\r?\n/)[0] || "No comment",
+        index
+      }));
+
+      let picked: number[] = [];
+      if (mode.mode === "select") {
+        const selected = await vscode.window.showQuickPick(candidateItems, {
+          canPickMany: true,
+          placeHolder: "Select changesets to merge",
+          title: `Merge - Candidates (${candidates.length})`
+        });
+        if (!selected || selected.length === 0) return;
+        picked = selected.map(s => s.index).sort((a, b) => a - b);
+      } else {
+        const from = await vscode.window.showQuickPick(candidateItems, { placeHolder: "First changeset of the range", title: "Merge - Range Start" });
+        if (!from) return;
+        const to = await vscode.window.showQuickPick(candidateItems.slice(from.index), { placeHolder: "Last changeset of the range", title: "Merge - Range End" });
+        if (!to) return;
+        for (let i = from.index; i <= to.index; i++) picked.push(i);
+      }
+
+      for (const index of picked) {
+        const last = ranges[ranges.length - 1];
+        const id = candidates[index].changesetId;
+        if (last && candidates[index - 1]?.changesetId === last.to) {
+          last.to = id;
+        } else {
+          ranges.push({ from: id, to: id });
+        }
+      }
+    }
+
     await withBusy(`TFVC: Merging ${src} into ${dst}...`, async () => {
-      await tfvc.merge(src, dst);
-      vscode.window.showInformationMessage(`TFVC: Merge completed. Resolve conflicts if any.`);
+      if (ranges.length === 0) {
+        await folder.tfvc.merge(src, dst);
+      }
+      for (const range of ranges) {
+        output.appendLine(`VSTFS: Merging C${range.from}~C${range.to} from ${src} into ${dst}`);
+        await folder.tfvc.merge(src, dst, { changesetFrom: range.from, changesetTo: range.to });
+      }
+      refreshPending(folder);
+      if (!(await reportConflicts(folder))) {
+        vscode.window.showInformationMessage(`TFVC: Merge completed without conflicts. Review and Check In.`);
+      }
+    });
+  });
+
+  // Conflicts
+  const resolveConflict = async (conflict: TFConflict | undefined, resolution: "TakeTheirs" | "KeepYours", label: string) => {
+    if (!conflict) return;
+    const folder = folders.forUri(vscode.Uri.file(conflict.file)) ?? shown;
+    await withBusy(`TFVC: ${label} for ${path.basename(conflict.file)}...`, async () => {
+      await folder.tfvc.resolve([conflict.file], resolution);
+      conflictsView.refresh();
+      refreshPending(folder);
+    });
+  };
+
+  reg("vstfs.conflicts.takeSource", (c?: TFConflict) => resolveConflict(c, "TakeTheirs", "Taking source"));
+  reg("vstfs.conflicts.keepTarget", (c?: TFConflict) => resolveConflict(c, "KeepYours", "Keeping target"));
+  // After a manual merge the local file holds the result, so keeping "yours" accepts it
+  reg("vstfs.conflicts.markResolved", (c?: TFConflict) => resolveConflict(c, "KeepYours", "Accepting merge"));
+
+  // Works on the folder the Conflicts view shows
+  reg("vstfs.conflicts.autoMerge", () => withBusy("TFVC: Auto-merging conflicts...", async () => {
+    const folder = shown;
+    await folder.tfvc.resolve(undefined, "AutoMerge").catch(e => output.appendLine(`VSTFS: Auto-merge left conflicts: ${String(e)}`));
+    conflictsView.refresh();
+    refreshPending(folder);
+  }));
+
+  reg("vstfs.conflicts.merge", async (conflict?: TFConflict) => {
+    if (!conflict) return;
+    const local = vscode.Uri.file(conflict.file);
+    const theirsPath = conflict.sourcePath ?? conflict.serverPath;
+    // Merges: the source as merged, against the source version before the merged changesets.
+    // Get conflicts: the latest version, against the workspace version the local edit started from.
+    const theirs = toTfvcUri(theirsPath, conflict.sourceVersion ? `C${conflict.sourceVersion}` : LATEST_VERSION);
+    const ancestor = conflict.baseVersion ? toTfvcUri(theirsPath, `C${conflict.baseVersion}`) : undefined;
+    let base = ancestor ?? toTfvcUri(conflict.serverPath, WORKSPACE_VERSION);
+
+    try {
+      await withBusy(`TFVC: Fetching versions of ${path.basename(conflict.file)}...`, async () => {
+        await vscode.workspace.openTextDocument(theirs);
+        try {
+          await vscode.workspace.openTextDocument(base);
+        } catch (e) {
+          if (!ancestor) throw e;
+          // The item was added to the source by the merged changesets; both sides start from nothing
+          base = contentProvider.snapshot(theirsPath, "");
+        }
+      });
+    } catch {
+      return;
+    }
+    // "Yours" is a copy of the local file, which the merge editor then overwrites with the result
+    const yoursContent = Buffer.from(await vscode.workspace.fs.readFile(local)).toString("utf8");
+    const yours = contentProvider.snapshot(conflict.serverPath, yoursContent);
+
+    await vscode.commands.executeCommand("_open.mergeEditor", {
+      base,
+      input1: { uri: theirs, title: "Theirs", description: theirsPath },
+      input2: { uri: yours, title: "Yours", description: "Local" },
+      output: local
+    });
+
+    const choice = await vscode.window.showInformationMessage(
+      `Save the merged result of ${path.basename(conflict.file)}, then mark it as resolved.`,
+      "Mark Resolved"
+    );
+    if (choice !== "Mark Resolved") return;
+    const doc = vscode.workspace.textDocuments.find(d => d.uri.fsPath === local.fsPath);
+    if (doc?.isDirty) await doc.save();
+    await resolveConflict(conflict, "KeepYours", "Accepting merge");
+    // Otherwise released when the merge editor closes its documents
+    contentProvider.release(base, yours);
+  });
+
+  // Shelvesets: items of the Shelvesets view belong to the folder it shows, the palette asks
+  const shelvesetFolder = (arg?: TFShelveset) => arg?.name ? Promise.resolve(shown) : folders.pick();
+
+  const pickShelveset = async (folder: TfvcFolder, arg?: TFShelveset): Promise<TFShelveset | undefined> => {
+    if (arg?.name) return arg;
+    const sets = await folder.backend.shelvesets(shelvesetsView.owner).catch(() => []);
+    const picked = await vscode.window.showQuickPick(
+      sets.map(s => ({ label: s.name, description: s.owner, detail: s.comment?.split(/\r?\n/)[0], shelveset: s })),
+      { placeHolder: "Select shelveset", title: "Shelvesets" }
+    );
+    return picked?.shelveset;
+  };
+
+  reg("vstfs.shelve", async () => {
+    const folder = await folders.pick();
+    if (!folder) return;
+    const pending = await folder.tfvc.pendingChanges();
+    if (pending.length === 0) {
+      vscode.window.showInformationMessage("TFVC: No pending changes to shelve.");
+      return;
+    }
+    const selectedItems = await vscode.window.showQuickPick(
+      pending.map(item => ({ label: `${item.action}: ${item.file}`, file: item.file, picked: true })),
+      { canPickMany: true, placeHolder: "Select files to shelve", title: `Shelve - Select Files (${pending.length} pending changes)` }
+    );
+    if (!selectedItems || selectedItems.length === 0) return;
+
+    const name = await vscode.window.showInputBox({
+      prompt: "Shelveset name",
+      placeHolder: "e.g., feature-login-wip",
+      validateInput: v => /[\/:<>\\|*?;]/.test(v) ? "Shelveset names cannot contain / : < > \\ | * ? ;" : undefined
+    });
+    if (!name) return;
+    const comment = await vscode.window.showInputBox({ prompt: "Shelveset comment", value: "" });
+    if (comment === undefined) return;
+    const keep = await vscode.window.showQuickPick(
+      [
+        { label: "Preserve pending changes locally", move: false },
+        { label: "Shelve and undo pending changes", move: true }
+      ],
+      { placeHolder: "What should happen to your local pending changes?" }
+    );
+    if (!keep) return;
+
+    // Shelve everything when nothing was unchecked, so the workspace-wide form is used
+    const files = selectedItems.length === pending.length ? undefined : selectedItems.map(item => item.file);
+    await withBusy(`TFVC: Shelving ${name}...`, async () => {
+      await folder.tfvc.shelve(name, comment, files, { move: keep.move, replace: true });
+      if (keep.move) refreshPending(folder);
+      refreshShelvesets();
+      vscode.window.showInformationMessage(`TFVC: Shelved ${selectedItems.length} changes as ${name}.`);
+    });
+  });
+
+  reg("vstfs.unshelve", async (arg?: TFShelveset) => {
+    const folder = await shelvesetFolder(arg);
+    const shelveset = folder && await pickShelveset(folder, arg);
+    if (!folder || !shelveset) return;
+    await withBusy(`TFVC: Unshelving ${shelveset.name}...`, async () => {
+      await folder.tfvc.unshelve(shelveset.name, shelveset.owner);
+      refreshPending(folder);
+      vscode.window.showInformationMessage(`TFVC: Unshelved ${shelveset.name}.`);
+    });
+  });
+
+  reg("vstfs.deleteShelveset", async (arg?: TFShelveset) => {
+    const folder = await shelvesetFolder(arg);
+    const shelveset = folder && await pickShelveset(folder, arg);
+    if (!folder || !shelveset) return;
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete shelveset ${shelveset.name}${shelveset.owner ? ` (${shelveset.owner})` : ""}?`,
+      { modal: true },
+      "Yes"
+    );
+    if (confirm !== "Yes") return;
+    await withBusy(`TFVC: Deleting shelveset ${shelveset.name}...`, async () => {
+      await folder.tfvc.deleteShelveset(shelveset.name, shelveset.owner);
+      refreshShelvesets();
+      vscode.window.showInformationMessage(`TFVC: Deleted shelveset ${shelveset.name}.`);
     });
   });
 
+  reg("vstfs.openShelveset", async (arg?: TFShelveset) => {
+    const folder = await shelvesetFolder(arg);
+    const shelveset = folder && await pickShelveset(folder, arg);
+    if (!folder || !shelveset) return;
+    await withBusy(`TFVC: Opening shelveset ${shelveset.name}...`, async () => {
+      await ShelvesetPanel.show(folder.tfvc, shelveset);
+    });
+  });
+
+  reg("vstfs.shelvesets.filter", async () => {
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: "My shelvesets", owner: undefined as string | undefined },
+        { label: "All users", owner: "*" },
+        { label: "Specific owner...", owner: "" }
+      ],
+      { placeHolder: "Show shelvesets owned by", title: "Filter Shelvesets" }
+    );
+    if (!picked) return;
+    let owner = picked.owner;
+    if (owner === "") {
+      owner = await vscode.window.showInputBox({ prompt: "Owner (e.g., DOMAIN\\user or user@company.com)", value: shelvesetsView.owner || "" });
+      if (!owner) return;
+    }
+    shelvesetsView.setOwner(owner);
+    describeViews();
+  });
+
+  // Check out on edit (server workspaces) and explorer renames / moves / deletes are handled per folder
+  reg("vstfs.checkout", async (uri?: vscode.Uri) => {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!target || target.scheme !== "file") return;
+    const folder = folders.forUri(target);
+    if (!folder) return;
+    await withBusy(`TFVC: Checking out ${path.basename(target.fsPath)}...`, async () => {
+      await folder.autoCheckout.checkout(target);
+      vscode.window.showInformationMessage(`TFVC: Checked out ${path.basename(target.fsPath)} for edit.`);
+    });
+  });
+
+  // Annotate (blame)
+  const annotations = new AnnotateController(uri => folders.forUri(uri));
+  ctx.subscriptions.push(annotations, vscode.languages.registerCodeLensProvider({ scheme: "file" }, annotations));
+
+  reg("vstfs.annotate", async () => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== "file") {
+      vscode.window.showInformationMessage("TFVC: Open a file to annotate.");
+      return;
+    }
+    // Toggle, like Visual Studio's Annotate
+    if (annotations.isAnnotated(editor.document.uri)) {
+      annotations.clear(editor.document.uri);
+      return;
+    }
+    await withBusy(`TFVC: Annotating ${path.basename(editor.document.uri.fsPath)}...`, async () => {
+      await annotations.annotate(editor);
+    });
+  });
+
+  reg("vstfs.annotate.clear", (uri?: vscode.Uri) => {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (target) annotations.clear(target);
+  });
+
   reg("vstfs.showHistory", async () => {
     const input = await vscode.window.showInputBox({ 
       prompt: "Show history for (file/folder path)",
@@ -240,14 +841,20 @@ export async function activate(ctx: vscode.ExtensionContext) {
       placeHolder: "e.g., . (current folder) or specific file path"
     });
     if (input === undefined) return;
+    const folder = await folders.pick();
+    if (!folder) return;
     await withBusy(`TFVC: Loading history for ${input}...`, async () => {
-      await tfvc.history(input, 100);
+      await folder.backend.history(input, 100);
       historyView.refresh();
     });
   });
 
-  reg("vstfs.showChangeset", async (idArg?: number) => {
-    let id: number | undefined = typeof idArg === "number" ? idArg : undefined;
+  // Called with an id and folder root from history clicks and annotate hovers, with the node from the inline button
+  reg("vstfs.showChangeset", async (idArg?: number | HistoryNode, root?: string) => {
+    const entry = idArg && typeof idArg === "object" && !(idArg instanceof TfvcFolder) ? idArg : undefined;
+    const folder = entry?.folder ?? folders.all.find(f => f.root === root) ?? await folders.pick();
+    if (!folder) return;
+    let id: number | undefined = typeof idArg === "number" ? idArg : entry?.changeset.changesetId;
     if (!id) {
       const input = await vscode.window.showInputBox({ 
         prompt: "Changeset ID to open",
@@ -257,11 +864,13 @@ export async function activate(ctx: vscode.ExtensionContext) {
       id = Number(input);
     }
     await withBusy(`TFVC: Opening changeset C${id}...`, async () => {
-      await ChangesetPanel.show(tfvc, id!);
+      await ChangesetPanel.show(folder.tfvc, folder.backend, id!, () => refreshPending(folder));
     });
   });
 
   reg("vstfs.rollbackChangeset", async () => {
+    const folder = await folders.pick();
+    if (!folder) return;
     const input = await vscode.window.showInputBox({ 
       prompt: "Rollback to changeset ID",
       placeHolder: "e.g., 12345"
@@ -275,8 +884,8 @@ export async function activate(ctx: vscode.ExtensionContext) {
     );
     if (confirm !== "Yes") return;
     await withBusy(`TFVC: Rolling back to C${id}...`, async () => {
-      await tfvc.rollbackToChangeset(id);
-      pendingView.refresh();
+      await folder.tfvc.rollbackToChangeset(id);
+      refreshPending(folder);
       vscode.window.showInformationMessage(`TFVC: Rolled back to C${id}. Review and Check In.`);
     });
   });
@@ -288,21 +897,30 @@ export async function activate(ctx: vscode.ExtensionContext) {
     }
   });
 
-  reg("vstfs.diffFile", async (uri: vscode.Uri) => {
-    if (uri) {
-      // Get the file at the previous version for diff
-      const filePath = uri.fsPath;
-      try {
-        // This would need to get the previous version from TFVC
-        vscode.window.showInformationMessage("Diff functionality requires TFVC integration. Use the changeset view instead.");
-      } catch (e) {
-        vscode.window.showErrorMessage(`Failed to get previous version: ${e}`);
-      }
+  reg("vstfs.diffFile", async (arg?: ItemArg) => {
+    const uri = itemUri(arg) ?? vscode.window.activeTextEditor?.document.uri;
+    const folder = uri && folders.forUri(uri);
+    if (!uri || !folder) return;
+    const base = toTfvcUri(folder.tfvc.toServerPath(uri.fsPath), WORKSPACE_VERSION);
+    try {
+      // Fetch the base up front so a missing server item surfaces as an error, not an empty diff
+      await withBusy(`TFVC: Getting workspace version of ${path.basename(uri.fsPath)}...`, async () => {
+        await vscode.workspace.openTextDocument(base);
+      });
+    } catch {
+      return;
     }
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      base,
+      uri,
+      `${path.basename(uri.fsPath)} (Workspace) ↔ Working`
+    );
   });
 
   reg("vstfs.revertFile", async (uri: vscode.Uri) => {
-    if (uri) {
+    const folder = uri && folders.forUri(uri);
+    if (folder) {
       const confirm = await vscode.window.showWarningMessage(
         `Revert ${path.basename(uri.fsPath)}? This will discard all local changes.`,
         { modal: true },
@@ -310,9 +928,9 @@ export async function activate(ctx: vscode.ExtensionContext) {
       );
       if (confirm === "Yes") {
         try {
-          await tfvc.getLatest(uri.fsPath);
+          await folder.tfvc.getLatest(uri.fsPath);
           vscode.window.showInformationMessage(`Reverted ${path.basename(uri.fsPath)}. Remember to Check In.`);
-          pendingView.refresh();
+          refreshPending(folder);
         } catch (e) {
           vscode.window.showErrorMessage(`Failed to revert file: ${e}`);
         }
@@ -320,8 +938,10 @@ export async function activate(ctx: vscode.ExtensionContext) {
     }
   });
 
-  reg("vstfs.undoItem", async (uri: vscode.Uri) => {
-    if (!uri) return;
+  reg("vstfs.undoItem", async (arg?: ItemArg) => {
+    const uri = itemUri(arg);
+    const folder = uri && folders.forUri(uri);
+    if (!uri || !folder) return;
     const fsPath = uri.fsPath;
     const confirm = await vscode.window.showWarningMessage(
       `Undo pending change for ${path.basename(fsPath)}?`,
@@ -330,8 +950,8 @@ export async function activate(ctx: vscode.ExtensionContext) {
     );
     if (confirm !== "Yes") return;
     await withBusy(`TFVC: Undoing ${path.basename(fsPath)}...`, async () => {
-      await tfvc.undo([fsPath]);
-      pendingView.refresh();
+      await folder.tfvc.undo([fsPath]);
+      refreshPending(folder);
       vscode.window.showInformationMessage(`TFVC: Undid change for ${path.basename(fsPath)}.`);
     });
   });
@@ -340,27 +960,263 @@ export async function activate(ctx: vscode.ExtensionContext) {
     // Determine which view to refresh based on active view
     const activeView = vscode.window.activeTextEditor?.viewColumn;
     // For now, refresh all views
-    pendingView.refresh();
+    refreshPending();
     branchesView.refresh();
     historyView.refresh();
+    refreshShelvesets();
     vscode.window.showInformationMessage("VSTFS views refreshed.");
   });
 
   // Manual sign-in command
   reg("vstfs.signIn", async () => {
+    const folder = await folders.pick();
+    if (!folder) return;
     await withBusy("TFVC: Signing in...", async () => {
-      await tfvc.signIn();
+      await folder.tfvc.signIn();
       vscode.window.showInformationMessage("TFVC: Sign-in attempted. If prompted, complete the dialog then retry your action.");
     });
   });
 
-  // Status bar
-  const status = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
-  status.text = `TFVC: ${cfg.workspace || "workspace"}@${cfg.serverUrl || "server"}`;
-  status.tooltip = "VSTFS configuration";
-  status.command = "workbench.view.extension.vstfs";
-  status.show();
-  ctx.subscriptions.push(status);
+  // Workspaces and mappings: nothing is mapped behind the user's back, every change is confirmed
+  const confirmChange = async (message: string, detail: string, action: string) =>
+    (await vscode.window.showWarningMessage(message, { modal: true, detail }, action)) === action;
+
+  // Workspace commands work on the collection of the folder the Workspaces view shows
+  const pickWorkspace = async (node?: WorkspaceNode): Promise<TFWorkspace | undefined> => {
+    if (node) return node.workspace;
+    const all = await shown.tfvc.workspaces().catch(() => []);
+    if (all.length === 0) {
+      const choice = await vscode.window.showInformationMessage("TFVC: No workspaces found on this collection.", "Create Workspace...");
+      if (choice) vscode.commands.executeCommand("vstfs.workspace.create");
+      return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+      all.map(w => ({ label: w.name, description: [w.computer, w.location].filter(Boolean).join(" • "), workspace: w })),
+      { placeHolder: "Select workspace", title: "Workspaces" }
+    );
+    return picked?.workspace;
+  };
+
+  reg("vstfs.workspaces.refresh", () => workspacesView.refresh());
+
+  reg("vstfs.workspace.create", async () => {
+    const name = await vscode.window.showInputBox({
+      prompt: "Workspace name",
+      validateInput: v => !v.trim() ? "Enter a name" : /[\\/:<>|*?;"]/.test(v) ? "Workspace names cannot contain \\ / : < > | * ? ; \"" : undefined
+    });
+    if (!name) return;
+    const location = await vscode.window.showQuickPick(
+      [
+        { label: "Local", description: "Files are writable; edits, adds and deletes are detected", value: "local" as TFWorkspaceLocation },
+        { label: "Server", description: "Files are read-only until checked out", value: "server" as TFWorkspaceLocation }
+      ],
+      { placeHolder: "Workspace location", title: `Create Workspace ${name}` }
+    );
+    if (!location) return;
+    if (!await confirmChange(`Create ${location.value} workspace ${name}?`, "It has no mappings yet; map a folder afterwards.", "Create")) return;
+    await withBusy(`TFVC: Creating workspace ${name}...`, async () => {
+      await shown.tfvc.createWorkspace(name.trim(), location.value);
+      workspacesView.refresh();
+      vscode.window.showInformationMessage(`TFVC: Created workspace ${name}.`);
+    });
+  });
+
+  reg("vstfs.workspace.delete", async (node?: WorkspaceNode) => {
+    const ws = await pickWorkspace(node);
+    if (!ws) return;
+    if (!await confirmChange(
+      `Delete workspace ${ws.name}?`,
+      "Its mappings and any pending changes in it are discarded. Local files are left on disk.",
+      "Delete"
+    )) return;
+    await withBusy(`TFVC: Deleting workspace ${ws.name}...`, async () => {
+      await shown.tfvc.deleteWorkspace(ws.name);
+      workspacesView.refresh();
+      vscode.window.showInformationMessage(`TFVC: Deleted workspace ${ws.name}.`);
+    });
+  });
+
+  reg("vstfs.workspace.switch", async (node?: WorkspaceNode) => {
+    const ws = await pickWorkspace(node);
+    if (!ws) return;
+    const folder = shown;
+    // .vstfs.json wins over the setting; switching would be undone on the next reload
+    const pinned = readConfigFile(folder.root).workspace;
+    if (pinned) {
+      const choice = await vscode.window.showWarningMessage(
+        `TFVC: ${folder.name}'s .vstfs.json sets the workspace to ${pinned}. Change it there to switch workspaces.`,
+        "Open .vstfs.json"
+      );
+      if (choice) await vscode.window.showTextDocument(vscode.Uri.file(configFilePath(folder.root)));
+      return;
+    }
+    // Server and local paths only resolve in a workspace that maps this folder
+    if (!mapsFolder(ws, folder.root)) {
+      const serverPath = folder.config.serverPath || await vscode.window.showInputBox({
+        prompt: `Server folder to map to ${folder.root}`,
+        value: "$/",
+        validateInput: v => v.startsWith("$/") ? undefined : "Server paths start with $/"
+      });
+      if (!serverPath) return;
+      if (!await confirmChange(
+        `Workspace ${ws.name} doesn't map ${folder.root}. Map ${serverPath} there and switch?`,
+        "Run Get Latest afterwards to download the files.",
+        "Map and Switch"
+      )) return;
+      await withBusy(`TFVC: Mapping ${serverPath}...`, () => folder.tfvc.map(ws.name, serverPath, folder.root));
+    }
+    // Folder-level setting in multi-root workspaces, so the other folders keep their workspace
+    const target = folders.all.length > 1 ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
+    await vscode.workspace.getConfiguration("vstfs", vscode.Uri.file(folder.root)).update("workspace", ws.name, target);
+    folder.config.workspace = ws.name;
+    folder.tfvc.setWorkspace(ws.name);
+    workspacesView.current = ws.name;
+    workspacesView.refresh();
+    describeViews();
+    refreshPending(folder);
+    vscode.window.showInformationMessage(`TFVC: Using workspace ${ws.name}.`);
+  });
+
+  reg("vstfs.workspace.map", async (node?: WorkspaceNode) => {
+    const ws = await pickWorkspace(node);
+    if (!ws) return;
+    const serverPath = await vscode.window.showInputBox({
+      prompt: "Server folder to map",
+      value: shown.config.serverPath || "$/",
+      validateInput: v => v.startsWith("$/") ? undefined : "Server paths start with $/"
+    });
+    if (!serverPath) return;
+    const folder = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      defaultUri: vscode.Uri.file(shown.root),
+      openLabel: "Map Here",
+      title: `Local folder for ${serverPath}`
+    });
+    if (!folder?.[0]) return;
+    const localPath = folder[0].fsPath;
+    if (!await confirmChange(`Map ${serverPath} to ${localPath}?`, `Workspace: ${ws.name}. Run Get Latest afterwards to download the files.`, "Map")) return;
+    await withBusy(`TFVC: Mapping ${serverPath}...`, async () => {
+      await shown.tfvc.map(ws.name, serverPath, localPath);
+      workspacesView.refresh();
+      vscode.window.showInformationMessage(`TFVC: Mapped ${serverPath} to ${localPath}.`);
+    });
+  });
+
+  reg("vstfs.workspace.unmap", async (node?: WorkspaceNode) => {
+    if (node?.kind !== "mapping" || !node.mapping.localPath) return;
+    const { workspace: ws, mapping } = node;
+    if (!await confirmChange(
+      `Remove the mapping of ${mapping.serverPath}?`,
+      `Workspace: ${ws.name}. ${mapping.localPath} stops being a working folder; files on disk are kept.`,
+      "Remove Mapping"
+    )) return;
+    await withBusy(`TFVC: Removing mapping ${mapping.serverPath}...`, async () => {
+      await shown.tfvc.unmap(ws.name, mapping.localPath!);
+      workspacesView.refresh();
+    });
+  });
+
+  reg("vstfs.workspace.cloak", async (node?: WorkspaceNode) => {
+    const ws = await pickWorkspace(node);
+    if (!ws) return;
+    const base = node?.kind === "mapping" ? node.mapping.serverPath : shown.config.serverPath || "$";
+    const serverPath = await vscode.window.showInputBox({
+      prompt: "Server folder to cloak (excluded from Get)",
+      value: `${base.replace(/\/$/, "")}/`,
+      validateInput: v => v.startsWith("$/") ? undefined : "Server paths start with $/"
+    });
+    if (!serverPath) return;
+    if (!await confirmChange(`Cloak ${serverPath}?`, `Workspace: ${ws.name}. Its local files are removed on the next Get Latest.`, "Cloak")) return;
+    await withBusy(`TFVC: Cloaking ${serverPath}...`, async () => {
+      await shown.tfvc.cloak(ws.name, serverPath);
+      workspacesView.refresh();
+    });
+  });
+
+  reg("vstfs.workspace.decloak", async (node?: WorkspaceNode) => {
+    if (node?.kind !== "mapping" || !node.mapping.cloaked) return;
+    const { workspace: ws, mapping } = node;
+    if (!await confirmChange(`Decloak ${mapping.serverPath}?`, `Workspace: ${ws.name}. Its files are downloaded again on the next Get Latest.`, "Decloak")) return;
+    await withBusy(`TFVC: Decloaking ${mapping.serverPath}...`, async () => {
+      await shown.tfvc.decloak(ws.name, mapping.serverPath);
+      workspacesView.refresh();
+    });
+  });
+
+  reg("vstfs.workspace.convert", async (node?: WorkspaceNode) => {
+    const ws = await pickWorkspace(node);
+    if (!ws) return;
+    let target: TFWorkspaceLocation | undefined = ws.location === "local" ? "server" : ws.location === "server" ? "local" : undefined;
+    if (!target) {
+      target = (await vscode.window.showQuickPick(["local", "server"], { placeHolder: `Convert ${ws.name} to` })) as TFWorkspaceLocation | undefined;
+      if (!target) return;
+    }
+    const detail = target === "local"
+      ? "Files become writable and changes are detected without checking out."
+      : "Files become read-only and must be checked out before editing. Pending changes are kept.";
+    if (!await confirmChange(`Convert workspace ${ws.name} to a ${target} workspace?`, detail, "Convert")) return;
+    await withBusy(`TFVC: Converting ${ws.name} to a ${target} workspace...`, async () => {
+      await shown.tfvc.setWorkspaceLocation(ws.name, target!);
+      workspacesView.refresh();
+      refreshPending(shown);
+    });
+  });
+
+  // Used to be mapped silently before every command; now the user decides
+  for (const folder of folders.all.filter(f => f.config.serverUrl)) {
+    folder.tfvc.isMapped().then(async mapped => {
+      if (mapped) return;
+      const choice = await vscode.window.showWarningMessage(
+        `TFVC: ${folder.root} is not mapped in a workspace.`,
+        "Map Folder...",
+        "Show Workspaces"
+      );
+      if (choice) showFolder(folder);
+      if (choice === "Map Folder...") vscode.commands.executeCommand("vstfs.workspace.map");
+      else if (choice === "Show Workspaces") vscode.commands.executeCommand("vstfs.workspaces.focus");
+    }, e => output.appendLine(`VSTFS: Could not check the workspace mapping of ${folder.root}: ${String(e)}`));
+  }
+
+  reg("vstfs.setPat", async () => {
+    const token = await vscode.window.showInputBox({
+      title: "TFVC: Personal Access Token",
+      prompt: "Token with Code (read & write) scope; it is stored in VS Code's secret storage",
+      password: true,
+      ignoreFocusOut: true
+    });
+    if (!token?.trim()) return;
+    rememberToken(token.trim());
+    await ctx.secrets.store(PAT_SECRET_KEY, token.trim());
+    if (folders.all.some(f => f.config.authType !== "pat")) {
+      await vscode.workspace.getConfiguration("vstfs").update("authType", "pat", vscode.ConfigurationTarget.Global);
+    }
+    for (const folder of folders.all) {
+      folder.config.authType = "pat";
+      folder.tfvc.setAuth("pat", token.trim());
+    }
+    vscode.window.showInformationMessage("TFVC: Personal access token saved.");
+  });
+
+  reg("vstfs.signOut", async () => {
+    await ctx.secrets.delete(PAT_SECRET_KEY);
+    folders.all.forEach(f => f.tfvc.setAuth(f.config.authType));
+    vscode.window.showInformationMessage(
+      folders.all.some(f => f.config.authType === "pat")
+        ? "TFVC: Personal access token removed. Set a new one before running TFVC commands."
+        : "TFVC: Personal access token removed."
+    );
+  });
+
+  // Keep other windows in sync when the token changes
+  ctx.subscriptions.push(ctx.secrets.onDidChange(async e => {
+    if (e.key !== PAT_SECRET_KEY) return;
+    const token = await ctx.secrets.get(PAT_SECRET_KEY);
+    rememberToken(token);
+    folders.all.forEach(f => f.tfvc.setAuth(f.config.authType, token));
+  }));
+
+  refreshPending();
 
   // Show welcome message
   vscode.window.showInformationMessage(
@@ -371,6 +1227,28 @@ export async function activate(ctx: vscode.ExtensionContext) {
       vscode.commands.executeCommand("workbench.view.extension.vstfs");
     }
   });
+
+  return { useRunner: runner => folders.useRunner(runner) };
 }
 
 export function deactivate() {}
+
+// What item commands are invoked with: a Uri from the explorer or editor, a resource state from
+// the SCM view, a pending change from the Pending Changes tree
+type ItemArg = vscode.Uri | vscode.SourceControlResourceState | TFPendingItem;
+
+function itemUri(arg?: ItemArg): vscode.Uri | undefined {
+  if (!arg) return undefined;
+  if (arg instanceof vscode.Uri) return arg;
+  if ("resourceUri" in arg) return arg.resourceUri;
+  return arg.file ? vscode.Uri.file(arg.file) : undefined;
+}
+
+// Whether an uncloaked mapping of the workspace covers a local folder
+function mapsFolder(ws: TFWorkspace, root: string): boolean {
+  return ws.mappings.some(m => {
+    if (!m.localPath || m.cloaked) return false;
+    const rel = path.relative(key(m.localPath), key(root));
+    return !rel.startsWith("..") && !path.isAbsolute(rel);
+  });
+}
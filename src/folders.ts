@@ -0,0 +1,228 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { TFVC } from "./tfvc";
+import { VstfsConfig, loadConfig } from "./config";
+import { TfvcBackend, createBackend } from "./backend";
+import { PendingStore } from "./pendingStore";
+import { TfvcSourceControl } from "./providers/sourceControl";
+import { AutoCheckout } from "./providers/autoCheckout";
+import { FileOperations } from "./providers/fileOperations";
+import { PendingDecorations } from "./providers/decorations";
+import { TeamEditWarnings } from "./providers/teamWarnings";
+import { CommandRunner } from "./runner";
+
+export interface FolderServices {
+  output: vscode.OutputChannel;
+  getToken: () => Promise<string | undefined>;
+  // Called after a folder pended something on its own (check out on edit, explorer renames/deletes)
+  onPended: (folder: TfvcFolder) => void;
+  // Starts the TFVC client; TF.exe via execFile unless replaced
+  runner?: CommandRunner;
+}
+
+// Everything bound to one workspace folder: its config, TF.exe wrapper, read backend,
+// pending changes, SCM provider and the editor/explorer hooks that pend changes
+export class TfvcFolder implements vscode.Disposable {
+  readonly tfvc: TFVC;
+  readonly backend: TfvcBackend;
+  readonly store: PendingStore;
+  readonly scm: TfvcSourceControl;
+  readonly autoCheckout: AutoCheckout;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(readonly name: string, readonly root: string, readonly config: VstfsConfig, services: FolderServices) {
+    this.tfvc = new TFVC(config.tfPath, root, process.env, config, services.output, services.runner);
+    this.backend = createBackend(config, this.tfvc, services.output, services.getToken);
+    this.store = new PendingStore(this.tfvc, this.backend, services.output);
+    this.scm = new TfvcSourceControl(this.tfvc, this.store, root);
+    this.autoCheckout = new AutoCheckout(this.tfvc, root, () => services.onPended(this));
+
+    const decorations = new PendingDecorations(this.store);
+    this.disposables.push(
+      this.store,
+      this.scm,
+      this.autoCheckout,
+      new FileOperations(this.tfvc, root, services.output, () => services.onPended(this)),
+      decorations,
+      vscode.window.registerFileDecorationProvider(decorations),
+      new TeamEditWarnings(this.store, root)
+    );
+  }
+
+  contains(fsPath: string): boolean {
+    const rel = path.relative(this.root, fsPath);
+    return !rel.startsWith("..") && !path.isAbsolute(rel);
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+// What a command may be invoked on: a folder or a view node carrying one, a file, an SCM provider
+// (scm/title) or resource state, or an item with a local file (a pending change)
+export type FolderArg =
+  | TfvcFolder
+  | { folder: TfvcFolder }
+  | vscode.Uri
+  | vscode.SourceControl
+  | vscode.SourceControlResourceState
+  | { file: string };
+
+// The TFVC folders of a (multi-root) workspace. Folders with their own .vstfs.json or a server URL
+// get a context; a single-folder workspace always gets one, as before.
+export class TfvcFolders implements vscode.Disposable {
+  private folders: TfvcFolder[] = [];
+  private last: TfvcFolder | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  private _emitter = new vscode.EventEmitter<void>();
+  // Fires when folders are added or removed
+  readonly onDidChange = this._emitter.event;
+  private _activeEmitter = new vscode.EventEmitter<TfvcFolder>();
+  // Fires when the folder of the active editor changes
+  readonly onDidChangeActive = this._activeEmitter.event;
+  private _pendingEmitter = new vscode.EventEmitter<TfvcFolder>();
+  // Fires when any folder's pending changes were reloaded
+  readonly onDidChangePending = this._pendingEmitter.event;
+
+  constructor(private secrets: vscode.SecretStorage, private services: FolderServices) {
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        const folder = editor && this.forUri(editor.document.uri);
+        if (folder && folder !== this.last) {
+          this.last = folder;
+          this._activeEmitter.fire(folder);
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => void this.load())
+    );
+  }
+
+  get all(): readonly TfvcFolder[] {
+    return this.folders;
+  }
+
+  // Folder of the active editor, else the one used last, else the first
+  get active(): TfvcFolder {
+    const editor = vscode.window.activeTextEditor;
+    return (editor && this.forUri(editor.document.uri)) || this.last || this.folders[0];
+  }
+
+  // (Re)creates contexts for the current workspace folders, keeping the ones that are still open
+  async load(): Promise<void> {
+    const wsFolders = vscode.workspace.workspaceFolders ?? [];
+    const next: TfvcFolder[] = [];
+    for (const wsFolder of wsFolders) {
+      const existing = this.folders.find(f => f.root === wsFolder.uri.fsPath);
+      if (existing) {
+        next.push(existing);
+        continue;
+      }
+      const config = await loadConfig(this.secrets, wsFolder);
+      if (wsFolders.length > 1 && !isTfvcFolder(wsFolder.uri.fsPath, config)) continue;
+      next.push(this.create(wsFolder.name, wsFolder.uri.fsPath, config));
+    }
+    if (next.length === 0) {
+      // Nothing configured: keep the single-folder behaviour on the first folder (or the configured root)
+      const first = wsFolders[0];
+      const config = await loadConfig(this.secrets, first);
+      const root = first?.uri.fsPath ?? (config.root && config.root !== "." ? config.root : process.cwd());
+      next.push(this.folders.find(f => f.root === root) ?? this.create(first?.name ?? path.basename(root), root, config));
+    }
+
+    this.folders.filter(f => !next.includes(f)).forEach(f => f.dispose());
+    const changed = next.length !== this.folders.length || next.some((f, i) => f !== this.folders[i]);
+    this.folders = next;
+    if (this.last && !next.includes(this.last)) this.last = undefined;
+    if (changed) this._emitter.fire();
+  }
+
+  // Recreates every folder context with another client runner (the integration tests use a fake tf)
+  async useRunner(runner: CommandRunner): Promise<void> {
+    this.services.runner = runner;
+    this.folders.forEach(f => f.dispose());
+    this.folders = [];
+    this.last = undefined;
+    await this.load();
+  }
+
+  private create(name: string, root: string, config: VstfsConfig): TfvcFolder {
+    const folder = new TfvcFolder(name, root, config, this.services);
+    this.services.output.appendLine(`VSTFS: ${name}: ${root} → ${config.serverPath || "(no serverPath)"} on ${config.serverUrl || "(no serverUrl)"}`);
+    folder.store.onDidChange(() => this._pendingEmitter.fire(folder));
+    return folder;
+  }
+
+  // Innermost folder containing a local file
+  forUri(uri: vscode.Uri): TfvcFolder | undefined {
+    if (uri.scheme !== "file") return undefined;
+    return this.folders
+      .filter(f => f.contains(uri.fsPath))
+      .sort((a, b) => b.root.length - a.root.length)[0];
+  }
+
+  // Folder whose serverPath holds a server item; used for tfvc: documents, which carry no local path
+  forServerPath(serverPath: string): TfvcFolder {
+    const item = serverPath.toLowerCase();
+    return this.folders
+      .filter(f => f.config.serverPath && (item + "/").startsWith(f.config.serverPath.toLowerCase().replace(/\/?$/, "/")))
+      .sort((a, b) => b.config.serverPath.length - a.config.serverPath.length)[0] ?? this.active;
+  }
+
+  // Folder a command applies to: the file or tree item it was invoked on, then the active editor,
+  // then the only folder; otherwise the user picks one
+  async pick(arg?: FolderArg): Promise<TfvcFolder | undefined> {
+    const folder = this.fromArg(arg) ?? this.fromArg(vscode.window.activeTextEditor?.document.uri);
+    if (folder) return this.use(folder);
+    if (this.folders.length === 1) return this.folders[0];
+
+    const picked = await vscode.window.showQuickPick(
+      this.folders.map(f => ({ label: f.name, description: f.config.serverPath, detail: f.root, folder: f })),
+      { placeHolder: "Select the TFVC folder", title: "TFVC Folders" }
+    );
+    return picked && this.use(picked.folder);
+  }
+
+  private fromArg(arg?: FolderArg): TfvcFolder | undefined {
+    if (!arg) return undefined;
+    if (arg instanceof TfvcFolder) return arg;
+    if (arg instanceof vscode.Uri) return this.forUri(arg);
+    if ("folder" in arg) return arg.folder;
+    if ("resourceUri" in arg) return this.forUri(arg.resourceUri);
+    if ("rootUri" in arg) return arg.rootUri && this.forUri(arg.rootUri);
+    if ("file" in arg) return this.forUri(vscode.Uri.file(arg.file));
+    return undefined;
+  }
+
+  private use(folder: TfvcFolder): TfvcFolder {
+    if (folder !== this.last) {
+      this.last = folder;
+      this._activeEmitter.fire(folder);
+    }
+    return folder;
+  }
+
+  dispose() {
+    this.folders.forEach(f => f.dispose());
+    this.disposables.forEach(d => d.dispose());
+    this._emitter.dispose();
+    this._activeEmitter.dispose();
+    this._pendingEmitter.dispose();
+  }
+}
+
+// Top-level node of the views that group by folder once more than one folder is open
+export function folderTreeItem(folder: TfvcFolder): vscode.TreeItem {
+  const item = new vscode.TreeItem(folder.name, vscode.TreeItemCollapsibleState.Expanded);
+  item.description = folder.config.serverPath || undefined;
+  item.iconPath = new vscode.ThemeIcon("root-folder");
+  item.contextValue = "tfvcFolder";
+  item.tooltip = `${folder.root}${folder.config.serverUrl ? `\n${folder.config.serverUrl}` : ""}`;
+  return item;
+}
+
+function isTfvcFolder(root: string, config: VstfsConfig): boolean {
+  return !!config.serverUrl || fs.existsSync(path.join(root, ".vstfs.json"));
+}
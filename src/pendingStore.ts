@@ -0,0 +1,147 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { TFVC, TFPendingItem } from "./tfvc";
+import { TfvcBackend } from "./backend";
+import { withoutCancellation } from "./runner";
+
+// Sections beyond my own pending changes; each costs a tf status of its own
+export type PendingSection = "candidates" | "team";
+
+// One shared snapshot of pending state for the Pending Changes view, the SCM view and
+// explorer decorations, so showing the same data in several places doesn't start extra TF.exe processes
+export class PendingStore implements vscode.Disposable {
+  private _emitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._emitter.event;
+
+  private _items: TFPendingItem[] = [];
+  private _candidates: TFPendingItem[] = [];
+  private _team: TFPendingItem[] = [];
+  private loaded = false;
+  private loading: Promise<void> | undefined;
+  private again = false;
+  // Sections load while something shows them, and for refreshes that ask for them;
+  // other loads keep their last list
+  private watchers = new Map<PendingSection, number>();
+  private requested = new Set<PendingSection>();
+  private loadedSections = new Set<PendingSection>();
+
+  constructor(private tfvc: TFVC, private backend: TfvcBackend, private output: vscode.OutputChannel) {}
+
+  // My pending changes
+  get items(): TFPendingItem[] { return this._items; }
+  // Detected (not yet promoted) adds and deletes
+  get candidates(): TFPendingItem[] { return this._candidates; }
+  // Everyone's pending changes under the mapped serverPath
+  get team(): TFPendingItem[] { return this._team; }
+
+  // Current user as reported by detailed status; unknown until I have a pending change
+  get me(): string | undefined {
+    return this._items.find(i => i.user)?.user;
+  }
+
+  // Pending changes of other users on a file, for decorations and edit warnings
+  othersOn(file: string): TFPendingItem[] {
+    if (!showOtherUsersCheckouts()) return [];
+    const k = key(file);
+    const me = this.me?.toLowerCase();
+    const mine = this._items.some(i => key(i.file) === k);
+    return this._team.filter(t => key(t.file) === k && (me ? t.user?.toLowerCase() !== me : !mine));
+  }
+
+  // Asks the server who else has a file pended, without loading the whole team list
+  async loadOthersOn(file: string): Promise<TFPendingItem[]> {
+    if (!showOtherUsersCheckouts()) return [];
+    const k = key(file);
+    try {
+      const found = await withoutCancellation(() => this.tfvc.teamPendingChanges(file));
+      this._team = [...this._team.filter(t => key(t.file) !== k), ...found];
+      this._emitter.fire();
+    } catch (e) {
+      this.output.appendLine(`VSTFS: Team status of ${file} failed: ${String(e)}`);
+    }
+    return this.othersOn(file);
+  }
+
+  // Loads the section with every refresh until the returned disposable is disposed
+  watch(section: PendingSection): vscode.Disposable {
+    this.watchers.set(section, (this.watchers.get(section) ?? 0) + 1);
+    return new vscode.Disposable(() => this.watchers.set(section, (this.watchers.get(section) ?? 1) - 1));
+  }
+
+  async ensureLoaded(): Promise<void> {
+    const missing = this.watched().filter(s => !this.loadedSections.has(s));
+    if (!this.loaded || missing.length > 0) await this.refresh(missing);
+  }
+
+  // Concurrent refreshes share one load; a refresh requested mid-load runs once more afterwards.
+  // Cancelling the command that asked for it doesn't stop the load the other callers wait for.
+  refresh(sections: PendingSection[] = []): Promise<void> {
+    sections.forEach(s => this.requested.add(s));
+    if (this.loading) {
+      this.again = true;
+      return this.loading;
+    }
+    this.loading = withoutCancellation(async () => {
+      do {
+        this.again = false;
+        await this.load();
+      } while (this.again);
+    }).finally(() => this.loading = undefined);
+    return this.loading;
+  }
+
+  private watched(): PendingSection[] {
+    return [...this.watchers].filter(([, count]) => count > 0).map(([section]) => section);
+  }
+
+  private async load() {
+    // The first load fills the SCM view's Detected Changes, which can't tell when it's shown
+    const sections = new Set<PendingSection>([...this.requested, ...this.watched()]);
+    if (!this.loaded) sections.add("candidates");
+    this.requested.clear();
+
+    try {
+      this._items = await this.backend.pendingChanges();
+    } catch (e: any) {
+      vscode.window.showErrorMessage(`Pending changes failed: ${e.message || e}`);
+      this._items = [];
+    }
+    if (sections.has("candidates")) {
+      try {
+        this._candidates = await this.tfvc.candidateChanges();
+      } catch {
+        // Older clients have no /candidate; the section just stays empty
+        this._candidates = [];
+      }
+    } else {
+      // Detected changes that were pended since are no longer candidates
+      const pended = new Set(this._items.map(i => key(i.file)));
+      this._candidates = this._candidates.filter(c => !pended.has(key(c.file)));
+    }
+    if (sections.has("team")) {
+      try {
+        this._team = await this.tfvc.teamPendingChanges();
+      } catch (e) {
+        this.output.appendLine(`VSTFS: Team status failed: ${String(e)}`);
+        this._team = [];
+      }
+    }
+    sections.forEach(s => this.loadedSections.add(s));
+    this.loaded = true;
+    this._emitter.fire();
+  }
+
+  dispose() {
+    this._emitter.dispose();
+  }
+}
+
+function showOtherUsersCheckouts(): boolean {
+  return vscode.workspace.getConfiguration("vstfs").get<boolean>("showOtherUsersCheckouts", true);
+}
+
+// Comparable form of a local path; only Windows file systems ignore case
+export function key(file: string): string {
+  const normalized = path.normalize(file);
+  return process.platform === "win32" ? normalized.toLowerCase() : normalized;
+}
@@ -0,0 +1,179 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { workItemMentions } from "./tfvc";
+import { activeSignal, cancelledError } from "./runner";
+
+// Declared under "policies" in .vstfs.json (or the vstfs.policies setting)
+export interface CheckinPolicyConfig {
+  comment?: {
+    required?: boolean;
+    minLength?: number;
+    pattern?: string;   // regular expression the comment must match
+    message?: string;   // shown instead of the generic pattern failure
+  };
+  workItemRequired?: boolean;
+  forbiddenPaths?: string[]; // "*.user" matches file names, "bin/" any folder named bin, "src/**/*.tmp" relative paths
+  maxFileSizeKB?: number;
+  task?: string;             // name of a VS Code task that must succeed
+}
+
+export interface PolicyContext {
+  comment: string;
+  workItems: number[];
+  files: string[]; // local paths
+  root: string;
+}
+
+export interface PolicyFailure {
+  policy: string;
+  message: string;
+}
+
+export async function evaluatePolicies(config: CheckinPolicyConfig | undefined, ctx: PolicyContext): Promise<PolicyFailure[]> {
+  if (!config) return [];
+  const failures: PolicyFailure[] = [];
+  const comment = (ctx.comment || "").trim();
+
+  if (config.comment) {
+    const c = config.comment;
+    if (c.required && !comment) {
+      failures.push({ policy: "Comment", message: "A check-in comment is required." });
+    } else if (c.minLength && comment.length < c.minLength) {
+      failures.push({ policy: "Comment", message: `The comment must be at least ${c.minLength} characters (has ${comment.length}).` });
+    }
+    if (c.pattern && comment) {
+      let re: RegExp | undefined;
+      try {
+        re = new RegExp(c.pattern);
+      } catch (e) {
+        failures.push({ policy: "Comment", message: `Invalid comment pattern in policy: ${String(e)}` });
+      }
+      if (re && !re.test(comment)) {
+        failures.push({ policy: "Comment", message: c.message || `The comment must match /${c.pattern}/.` });
+      }
+    }
+  }
+
+  if (config.workItemRequired) {
+    const ids = new Set([...ctx.workItems, ...workItemMentions(comment)]);
+    if (ids.size === 0) {
+      failures.push({ policy: "Work Items", message: "At least one work item must be associated." });
+    }
+  }
+
+  if (config.forbiddenPaths && config.forbiddenPaths.length > 0) {
+    for (const file of ctx.files) {
+      const rel = path.relative(ctx.root, file).replace(/\\/g, "/");
+      const hit = config.forbiddenPaths.find(p => matchesPathPattern(rel, p));
+      if (hit) failures.push({ policy: "Forbidden Paths", message: `${rel} matches forbidden pattern "${hit}".` });
+    }
+  }
+
+  if (config.maxFileSizeKB) {
+    for (const file of ctx.files) {
+      let size: number;
+      try {
+        size = fs.statSync(file).size;
+      } catch {
+        continue; // deleted files have nothing to measure
+      }
+      if (size > config.maxFileSizeKB * 1024) {
+        failures.push({
+          policy: "File Size",
+          message: `${path.basename(file)} is ${Math.round(size / 1024)} KB (limit ${config.maxFileSizeKB} KB).`
+        });
+      }
+    }
+  }
+
+  if (config.task) {
+    const result = await runTask(config.task);
+    if (result !== 0) {
+      failures.push({
+        policy: "Task",
+        message: result === undefined
+          ? `Task "${config.task}" was not found.`
+          : `Task "${config.task}" failed with exit code ${result}.`
+      });
+    }
+  }
+
+  return failures;
+}
+
+export function matchesPathPattern(relPath: string, pattern: string): boolean {
+  const p = pattern.replace(/\\/g, "/").replace(/^\.?\//, "");
+  const target = relPath.toLowerCase();
+  // "bin/" → any folder named bin
+  if (p.endsWith("/")) {
+    const folder = p.slice(0, -1).toLowerCase();
+    return target.split("/").slice(0, -1).some(seg => globToRegExp(folder).test(seg));
+  }
+  // Patterns without a slash match the file name anywhere
+  if (!p.includes("/")) {
+    return globToRegExp(p.toLowerCase()).test(path.posix.basename(target));
+  }
+  return globToRegExp(p.toLowerCase()).test(target);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      re += ".*";
+      i++;
+      if (glob[i + 1] === "/") i++;
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+// Runs a VS Code task by name and resolves with its exit code (undefined if no such task).
+// Cancelling the check-in's progress notification stops the task.
+async function runTask(name: string): Promise<number | undefined> {
+  const signal = activeSignal();
+  const tasks = await vscode.tasks.fetchTasks();
+  const task = tasks.find(t => t.name === name || `${t.source}: ${t.name}` === name);
+  if (!task) return undefined;
+
+  // Subscribed before the task starts, since a quick one can end before executeTask resolves
+  const ended = new Map<vscode.TaskExecution, number>();
+  let check = () => {};
+  const record = (execution: vscode.TaskExecution, exitCode: number) => {
+    if (!ended.has(execution)) ended.set(execution, exitCode);
+    check();
+  };
+  const subscriptions = [
+    vscode.tasks.onDidEndTaskProcess(e => record(e.execution, e.exitCode ?? 1)),
+    // Custom executions have no process; they end without an exit code
+    vscode.tasks.onDidEndTask(e => record(e.execution, 0))
+  ];
+  try {
+    if (signal?.aborted) throw cancelledError();
+    const execution = await vscode.tasks.executeTask(task);
+    return await new Promise<number>((resolve, reject) => {
+      const onAbort = () => {
+        execution.terminate();
+        reject(cancelledError());
+      };
+      check = () => {
+        if (!ended.has(execution)) return;
+        signal?.removeEventListener("abort", onAbort);
+        resolve(ended.get(execution)!);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (signal?.aborted) onAbort();
+      else check();
+    });
+  } finally {
+    subscriptions.forEach(s => s.dispose());
+  }
+}
@@ -0,0 +1,197 @@
+import * as vscode from "vscode";
+import { TFVC, TFHistoryItem } from "../tfvc";
+import { TfvcBackend } from "../backend";
+import { commonLines, splitLines } from "../diff";
+import { WORKSPACE_VERSION } from "./contentProvider";
+
+// Changeset that last touched each line; undefined = changed locally (pending)
+type LineAttribution = (TFHistoryItem | undefined)[];
+
+// The TFVC folder a local file belongs to
+export interface AnnotateSource {
+  root: string;
+  tfvc: TFVC;
+  backend: TfvcBackend;
+}
+
+interface FileAnnotation {
+  // Attribution of the workspace version, cached per latest server version and reused while the workspace version is the same
+  baseLines: string[];
+  baseAttribution: TFHistoryItem[];
+  changesets: number;
+  // Folder the shown annotation came from, so changeset links open on the right collection
+  root?: string;
+}
+
+// Visual Studio-style Annotate: there is no `tf annotate`, so history is replayed with an in-process line diff
+export class AnnotateController implements vscode.CodeLensProvider, vscode.Disposable {
+  private _lensEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._lensEmitter.event;
+
+  private decoration = vscode.window.createTextEditorDecorationType({
+    before: {
+      color: new vscode.ThemeColor("editorCodeLens.foreground"),
+      margin: "0 1.5em 0 0",
+      width: "26ch"
+    },
+    isWholeLine: false
+  });
+
+  // serverPath@C<latest id> → attribution of the workspace version
+  private cache = new Map<string, FileAnnotation>();
+  // Local path → annotation currently shown
+  private active = new Map<string, FileAnnotation>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private sourceFor: (uri: vscode.Uri) => AnnotateSource | undefined) {
+    this.disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(e => this.render(e))),
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (!this.active.has(e.document.uri.fsPath)) return;
+        vscode.window.visibleTextEditors.filter(ed => ed.document === e.document).forEach(ed => this.render(ed));
+      }),
+      vscode.workspace.onDidCloseTextDocument(doc => this.clear(doc.uri))
+    );
+  }
+
+  isAnnotated(uri: vscode.Uri): boolean {
+    return this.active.has(uri.fsPath);
+  }
+
+  async annotate(editor: vscode.TextEditor): Promise<void> {
+    const localPath = editor.document.uri.fsPath;
+    const source = this.sourceFor(editor.document.uri);
+    if (!source) {
+      throw new Error(`${localPath} is not in a TFVC folder.`);
+    }
+    const serverPath = source.tfvc.toServerPath(localPath);
+    const maxVersions = vscode.workspace.getConfiguration("vstfs").get<number>("annotate.maxVersions", 50);
+
+    const history = (await source.backend.history(serverPath, maxVersions))
+      .sort((a, b) => a.changesetId - b.changesetId);
+    if (history.length === 0) {
+      throw new Error(`No TFVC history found for ${serverPath}.`);
+    }
+
+    // The local file is edited from the workspace version, which can be older than the latest one
+    const workspace = splitLines(await source.tfvc.view(serverPath, WORKSPACE_VERSION));
+    const key = `${serverPath}@C${history[history.length - 1].changesetId}`;
+    let annotation = this.cache.get(key);
+    if (!annotation || !sameLines(annotation.baseLines, workspace)) {
+      annotation = await this.build(source, serverPath, history, workspace);
+      this.cache.set(key, annotation);
+    }
+    this.active.set(localPath, { ...annotation, root: source.root });
+    this.render(editor);
+    this._lensEmitter.fire();
+  }
+
+  clear(uri: vscode.Uri) {
+    if (!this.active.delete(uri.fsPath)) return;
+    vscode.window.visibleTextEditors
+      .filter(e => e.document.uri.fsPath === uri.fsPath)
+      .forEach(e => e.setDecorations(this.decoration, []));
+    this._lensEmitter.fire();
+  }
+
+  private async build(source: AnnotateSource, serverPath: string, history: TFHistoryItem[], workspace: string[]): Promise<FileAnnotation> {
+    // Lines older than the oldest fetched version are attributed to that version
+    let lines: string[] = [];
+    let attribution: TFHistoryItem[] = [];
+    // Newest replayed version equal to the workspace version; changesets after it aren't in the local file
+    let base: { lines: string[]; attribution: TFHistoryItem[] } | undefined;
+    for (const item of history) {
+      const next = splitLines(await source.backend.getFileAtChangeset(pathAt(item, serverPath), item.changesetId));
+      const nextAttribution = next.map(() => item);
+      for (const [i, j] of commonLines(lines, next)) {
+        nextAttribution[j] = attribution[i];
+      }
+      lines = next;
+      attribution = nextAttribution;
+      if (sameLines(lines, workspace)) base = { lines, attribution };
+    }
+    if (!base) {
+      // The workspace version isn't among the fetched ones; carry over what it shares with the newest
+      const mapped = workspace.map(() => history[0]);
+      for (const [i, j] of commonLines(lines, workspace)) {
+        mapped[j] = attribution[i];
+      }
+      base = { lines: workspace, attribution: mapped };
+    }
+    return { baseLines: base.lines, baseAttribution: base.attribution, changesets: new Set(base.attribution.map(a => a.changesetId)).size };
+  }
+
+  // Maps the cached base attribution onto the live document, so unsaved edits show as local changes
+  private attribute(doc: vscode.TextDocument, annotation: FileAnnotation): LineAttribution {
+    const current = splitLines(doc.getText());
+    const result: LineAttribution = current.map(() => undefined);
+    for (const [i, j] of commonLines(annotation.baseLines, current)) {
+      result[j] = annotation.baseAttribution[i];
+    }
+    return result;
+  }
+
+  private render(editor: vscode.TextEditor) {
+    const annotation = this.active.get(editor.document.uri.fsPath);
+    if (!annotation) return;
+
+    const attribution = this.attribute(editor.document, annotation);
+    const options: vscode.DecorationOptions[] = attribution.map((item, line) => {
+      // Only label the first line of each block to keep the gutter readable
+      const startsBlock = line === 0 || attribution[line - 1] !== item;
+      const text = !startsBlock
+        ? " "
+        : item
+          ? `C${item.changesetId} ${item.author.replace(/^.*\\/, "")} ${formatDate(item.date)}`
+          : "Local change";
+      return {
+        range: new vscode.Range(line, 0, line, 0),
+        hoverMessage: item ? hover(item, annotation.root) : new vscode.MarkdownString("Pending local change (not checked in)"),
+        renderOptions: { before: { contentText: text } }
+      };
+    });
+    editor.setDecorations(this.decoration, options);
+  }
+
+  provideCodeLenses(doc: vscode.TextDocument): vscode.CodeLens[] {
+    const annotation = this.active.get(doc.uri.fsPath);
+    if (!annotation) return [];
+    return [
+      new vscode.CodeLens(new vscode.Range(0, 0, 0, 0), {
+        title: `$(history) TFVC Annotate: ${annotation.changesets} changeset(s) — hide`,
+        command: "vstfs.annotate.clear",
+        arguments: [doc.uri]
+      })
+    ];
+  }
+
+  dispose() {
+    this.decoration.dispose();
+    this._lensEmitter.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+// The file's server path in a history entry; a renamed file had its old name in the changesets before the rename
+function pathAt(item: TFHistoryItem, serverPath: string): string {
+  const paths = item.files.map(f => f.path.replace(/;C?\d+$/i, ""));
+  return paths.find(p => p.toLowerCase() === serverPath.toLowerCase()) ?? (paths.length === 1 ? paths[0] : serverPath);
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function hover(item: TFHistoryItem, root?: string): vscode.MarkdownString {
+  const args = encodeURIComponent(JSON.stringify([item.changesetId, root]));
+  const md = new vscode.MarkdownString(
+    `**[Changeset C${item.changesetId}](command:vstfs.showChangeset?${args})** — ${item.author}, ${item.date.toLocaleString()}\n\n`
+  );
+  md.appendText(item.comment || "No comment");
+  md.isTrusted = { enabledCommands: ["vstfs.showChangeset"] };
+  return md;
+}
+
+function formatDate(date: Date): string {
+  return isNaN(date.getTime()) ? "" : date.toLocaleDateString();
+}
@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { TFVC, TFLockType } from "../tfvc";
+import { key } from "../pendingStore";
+
+type CheckoutMode = "off" | "prompt" | "auto";
+
+// Server workspaces keep files read-only until checked out. This checks them out on the first
+// edit (or before saving), either automatically or after asking, depending on vstfs.checkoutOnEdit.
+export class AutoCheckout implements vscode.Disposable {
+  private inFlight = new Map<string, Promise<boolean>>();
+  // Files the user said "no" to this session; asked again only via the explicit command
+  private declined = new Set<string>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private tfvc: TFVC, private root: string, private onCheckedOut: () => void) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.contentChanges.length > 0) void this.ensureWritable(e.document.uri);
+      }),
+      vscode.workspace.onWillSaveTextDocument(e => {
+        if (this.needsCheckout(e.document.uri)) e.waitUntil(this.ensureWritable(e.document.uri));
+      })
+    );
+  }
+
+  // Explicit "Check Out for Edit": ignores the mode and earlier "no" answers
+  async checkout(uri: vscode.Uri): Promise<void> {
+    this.declined.delete(key(uri.fsPath));
+    await this.tfvc.checkout([uri.fsPath], lockType());
+    this.onCheckedOut();
+  }
+
+  private needsCheckout(uri: vscode.Uri): boolean {
+    if (mode() === "off" || uri.scheme !== "file") return false;
+    const rel = path.relative(this.root, uri.fsPath);
+    if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) return false;
+    return isReadOnly(uri.fsPath);
+  }
+
+  private ensureWritable(uri: vscode.Uri): Promise<boolean> {
+    if (!this.needsCheckout(uri)) return Promise.resolve(true);
+    const k = key(uri.fsPath);
+    if (this.declined.has(k)) return Promise.resolve(false);
+
+    let pending = this.inFlight.get(k);
+    if (!pending) {
+      pending = this.run(uri).finally(() => this.inFlight.delete(k));
+      this.inFlight.set(k, pending);
+    }
+    return pending;
+  }
+
+  private async run(uri: vscode.Uri): Promise<boolean> {
+    const name = path.basename(uri.fsPath);
+    if (mode() === "prompt") {
+      const choice = await vscode.window.showWarningMessage(
+        `${name} is read-only (not checked out). Check out for edit?`,
+        "Check Out",
+        "Not Now"
+      );
+      if (choice !== "Check Out") {
+        this.declined.add(key(uri.fsPath));
+        return false;
+      }
+    }
+    try {
+      await this.tfvc.checkout([uri.fsPath], lockType());
+      this.onCheckedOut();
+      vscode.window.setStatusBarMessage(`TFVC: Checked out ${name}`, 3000);
+      return true;
+    } catch (e: any) {
+      vscode.window.showErrorMessage(`TFVC: Check out of ${name} failed: ${e?.message || e}`);
+      return false;
+    }
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+function mode(): CheckoutMode {
+  return vscode.workspace.getConfiguration("vstfs").get<CheckoutMode>("checkoutOnEdit", "off");
+}
+
+function lockType(): TFLockType {
+  return vscode.workspace.getConfiguration("vstfs").get<TFLockType>("checkoutLock", "none");
+}
+
+function isReadOnly(file: string): boolean {
+  try {
+    fs.accessSync(file, fs.constants.W_OK);
+    return false;
+  } catch {
+    // Missing files aren't "read-only"; only existing files without write access are
+    return fs.existsSync(file);
+  }
+}
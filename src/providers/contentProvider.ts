@@ -0,0 +1,106 @@
+import * as vscode from "vscode";
+import { TFVC } from "../tfvc";
+import { TfvcBackend } from "../backend";
+
+export const TFVC_SCHEME = "tfvc";
+// Version spec for the version currently in the local workspace (the pending change base)
+export const WORKSPACE_VERSION = "W";
+export const LATEST_VERSION = "T";
+const SHELVESET_PREFIX = "shelveset:";
+const SNAPSHOT_PREFIX = "snapshot:";
+
+// tfvc:/$/Proj/file.cs?C1234 — path is the server item, query is the version spec
+export function toTfvcUri(serverPath: string, versionSpec: string): vscode.Uri {
+  const normalized = serverPath.replace(/\\/g, "/");
+  return vscode.Uri.from({ scheme: TFVC_SCHEME, path: `/${normalized}`, query: versionSpec });
+}
+
+// Shelved content has no version spec; it's encoded as "shelveset:name;owner" in the query
+export function toShelvedUri(serverPath: string, shelveset: string, owner?: string): vscode.Uri {
+  return toTfvcUri(serverPath, `${SHELVESET_PREFIX}${owner ? `${shelveset};${owner}` : shelveset}`);
+}
+
+export function fromTfvcUri(uri: vscode.Uri): { serverPath: string; versionSpec: string } {
+  return { serverPath: uri.path.replace(/^\//, ""), versionSpec: uri.query };
+}
+
+// Read-only documents for server file versions, fetched on demand and cached in memory
+export class TfvcContentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private _emitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._emitter.event;
+
+  private cache = new Map<string, Promise<string>>();
+  // In-memory copies of local content (e.g. "yours" in a merge), never fetched from the server
+  private snapshots = new Map<string, string>();
+  private snapshotSeq = 0;
+  private closeListener: vscode.Disposable;
+
+  // Multi-root workspaces may span collections; the server path decides which one serves a document
+  constructor(private folderFor: (serverPath: string) => { tfvc: TFVC; backend: TfvcBackend }) {
+    // Snapshots hold whole files; they're only needed while their document is open
+    this.closeListener = vscode.workspace.onDidCloseTextDocument(doc => this.release(doc.uri));
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const key = uri.toString();
+    const snapshot = this.snapshots.get(key);
+    if (snapshot !== undefined) return Promise.resolve(snapshot);
+
+    let content = this.cache.get(key);
+    if (!content) {
+      const { serverPath, versionSpec } = fromTfvcUri(uri);
+      const { tfvc, backend } = this.folderFor(serverPath);
+      const changeset = versionSpec.match(/^C(\d+)$/i);
+      // Changeset versions come from the read backend (REST when configured); W and T are workspace-relative
+      content = versionSpec.startsWith(SHELVESET_PREFIX)
+        ? tfvc.viewShelved(serverPath, versionSpec.substring(SHELVESET_PREFIX.length))
+        : changeset
+          ? backend.getFileAtChangeset(serverPath, Number(changeset[1]))
+          : tfvc.view(serverPath, versionSpec);
+      // Don't keep failed changeset fetches around, the next open should retry. Failed workspace
+      // versions (untracked files) stay cached until invalidated so quick diff doesn't refetch per edit.
+      if (versionSpec !== WORKSPACE_VERSION) {
+        content.catch(() => this.cache.delete(key));
+      }
+      this.cache.set(key, content);
+    }
+    return content;
+  }
+
+  snapshot(serverPath: string, content: string): vscode.Uri {
+    const uri = toTfvcUri(serverPath, `${SNAPSHOT_PREFIX}${++this.snapshotSeq}`);
+    this.snapshots.set(uri.toString(), content);
+    return uri;
+  }
+
+  release(...uris: vscode.Uri[]) {
+    uris.forEach(uri => this.snapshots.delete(uri.toString()));
+  }
+
+  // Drop cached versions matching the filter (or everything) and notify open editors
+  invalidate(filter: (uri: vscode.Uri) => boolean = () => true) {
+    for (const key of [...this.cache.keys()]) {
+      const uri = vscode.Uri.parse(key);
+      if (!filter(uri)) continue;
+      this.cache.delete(key);
+      this._emitter.fire(uri);
+    }
+  }
+
+  // Workspace ("W") and latest ("T") versions move with get latest / check-in; changeset versions never change
+  invalidateFloatingVersions() {
+    this.invalidate(uri => {
+      const { versionSpec } = fromTfvcUri(uri);
+      return versionSpec === WORKSPACE_VERSION || versionSpec === LATEST_VERSION;
+    });
+  }
+
+  invalidateShelvedVersions() {
+    this.invalidate(uri => fromTfvcUri(uri).versionSpec.startsWith(SHELVESET_PREFIX));
+  }
+
+  dispose() {
+    this.closeListener.dispose();
+    this._emitter.dispose();
+  }
+}
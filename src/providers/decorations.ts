@@ -0,0 +1,74 @@
+import * as vscode from "vscode";
+import { TFPendingItem } from "../tfvc";
+import { PendingStore, key } from "../pendingStore";
+
+// Explorer / tab badges for pending changes, using the same colors git uses.
+// Everything comes from the shared PendingStore, so decorating never runs TF.exe.
+export class PendingDecorations implements vscode.FileDecorationProvider, vscode.Disposable {
+  private _emitter = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+  readonly onDidChangeFileDecorations = this._emitter.event;
+
+  private mine = new Map<string, TFPendingItem>();
+  private subscription: vscode.Disposable;
+
+  constructor(private store: PendingStore) {
+    this.subscription = store.onDidChange(() => this.update());
+  }
+
+  private update() {
+    this.mine = new Map(this.store.items.map(p => [key(p.file), p]));
+    this._emitter.fire(undefined);
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== "file") return undefined;
+    const own = this.mine.get(key(uri.fsPath));
+    const others = this.store.othersOn(uri.fsPath);
+
+    if (own) {
+      const locked = own.lock && own.lock !== "none";
+      const tooltip = [`TFVC: ${own.action}${locked ? ` (${own.lock} lock)` : ""}`, ...others.map(describe)].join("\n");
+      return new vscode.FileDecoration(badge(own.action) + (locked ? "L" : ""), tooltip, color(own.action));
+    }
+
+    if (others.length > 0) {
+      const locked = others.some(o => o.lock && o.lock !== "none");
+      return new vscode.FileDecoration(
+        locked ? "L" : "O",
+        others.map(describe).join("\n"),
+        new vscode.ThemeColor(locked ? "list.errorForeground" : "list.warningForeground")
+      );
+    }
+    return undefined;
+  }
+
+  dispose() {
+    this.subscription.dispose();
+    this._emitter.dispose();
+  }
+}
+
+function describe(other: TFPendingItem): string {
+  const lock = other.lock && other.lock !== "none" ? `, ${other.lock} lock` : "";
+  return `${other.user || "Another user"}: ${other.action}${lock}`;
+}
+
+function badge(action: TFPendingItem["action"]): string {
+  switch (action) {
+    case "add": return "A";
+    case "delete": return "D";
+    case "rename": return "R";
+    case "merge": return "G";
+    default: return "M";
+  }
+}
+
+function color(action: TFPendingItem["action"]): vscode.ThemeColor {
+  switch (action) {
+    case "add": return new vscode.ThemeColor("gitDecoration.addedResourceForeground");
+    case "delete": return new vscode.ThemeColor("gitDecoration.deletedResourceForeground");
+    case "rename": return new vscode.ThemeColor("gitDecoration.renamedResourceForeground");
+    case "merge": return new vscode.ThemeColor("gitDecoration.conflictingResourceForeground");
+    default: return new vscode.ThemeColor("gitDecoration.modifiedResourceForeground");
+  }
+}
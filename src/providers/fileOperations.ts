@@ -0,0 +1,90 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { TFVC } from "../tfvc";
+
+// Turns renames, moves and deletes done in VS Code into pending `tf rename` / `tf delete`,
+// so TFVC keeps the history instead of seeing a delete plus an untracked add
+export class FileOperations implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private tfvc: TFVC, private root: string, private output: vscode.OutputChannel, private onPended: () => void) {
+    this.disposables.push(
+      // VS Code waits for the rename to be pended before it moves anything
+      vscode.workspace.onWillRenameFiles(e => e.waitUntil(this.track(this.pendRenames(e.files)))),
+      vscode.workspace.onDidDeleteFiles(e => this.track(this.pendDeletes(e.files)))
+    );
+  }
+
+  private async track(work: Promise<number>) {
+    const pended = await work;
+    if (pended > 0) this.onPended();
+  }
+
+  private async pendRenames(files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]): Promise<number> {
+    let pended = 0;
+    for (const { oldUri, newUri } of files) {
+      if (!enabled() || !this.isUnderRoot(oldUri) || !this.isUnderRoot(newUri)) continue;
+      const from = oldUri.fsPath;
+      const to = newUri.fsPath;
+      try {
+        await this.tfvc.rename(from, to);
+        pended++;
+      } catch (e) {
+        // Untracked items can't be renamed in TFVC; VS Code moves them as usual
+        this.output.appendLine(`VSTFS: tf rename ${from} → ${to} failed, leaving it a plain move: ${String(e)}`);
+        continue;
+      }
+      // tf rename also moves the item (files and whole folders); put it back so VS Code's own move goes through.
+      // A case-only rename leaves both names "existing" on case-insensitive file systems, so look at the listing.
+      const caseOnly = from !== to && from.toLowerCase() === to.toLowerCase();
+      const moved = caseOnly ? !existsExactly(from) && existsExactly(to) : !fs.existsSync(from) && fs.existsSync(to);
+      try {
+        if (moved) fs.renameSync(to, from);
+      } catch (e: any) {
+        this.output.appendLine(`VSTFS: Could not hand ${to} back to VS Code's move: ${String(e)}`);
+        vscode.window.showWarningMessage(
+          `TFVC: The rename of ${path.basename(from)} is pended, but the item could not be handed back to VS Code: ` +
+          `${e?.message || e}. Check the Pending Changes view; undo the rename there if the disk doesn't match.`
+        );
+      }
+    }
+    return pended;
+  }
+
+  private async pendDeletes(files: readonly vscode.Uri[]): Promise<number> {
+    const targets = files.filter(uri => enabled() && this.isUnderRoot(uri)).map(uri => uri.fsPath);
+    if (targets.length === 0) return 0;
+    try {
+      await this.tfvc.delete(targets);
+      return targets.length;
+    } catch (e) {
+      // Untracked files have nothing to pend
+      this.output.appendLine(`VSTFS: tf delete failed for ${targets.join(", ")}: ${String(e)}`);
+      return 0;
+    }
+  }
+
+  private isUnderRoot(uri: vscode.Uri): boolean {
+    if (uri.scheme !== "file") return false;
+    const rel = path.relative(this.root, uri.fsPath);
+    return !!rel && !rel.startsWith("..") && !path.isAbsolute(rel) && !this.tfvc.ignore.isIgnored(uri.fsPath);
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+// Whether the item is on disk under exactly this name, letter case included
+function existsExactly(file: string): boolean {
+  try {
+    return fs.readdirSync(path.dirname(file)).includes(path.basename(file));
+  } catch {
+    return false;
+  }
+}
+
+function enabled(): boolean {
+  return vscode.workspace.getConfiguration("vstfs").get<boolean>("pendFileOperations", true);
+}
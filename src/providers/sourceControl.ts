@@ -0,0 +1,167 @@
+import * as vscode from "vscode";
+import { TFVC, TFPendingItem } from "../tfvc";
+import { PendingStore, key } from "../pendingStore";
+import { WORKSPACE_VERSION, toTfvcUri } from "./contentProvider";
+
+export interface PendingResourceState extends vscode.SourceControlResourceState {
+  readonly pending: TFPendingItem;
+}
+
+// Native SCM provider so the built-in Source Control view works like it does for git
+export class TfvcSourceControl implements vscode.Disposable, vscode.QuickDiffProvider {
+  readonly sourceControl: vscode.SourceControl;
+  readonly included: vscode.SourceControlResourceGroup;
+  readonly excluded: vscode.SourceControlResourceGroup;
+  readonly detected: vscode.SourceControlResourceGroup;
+
+  private _emitter = new vscode.EventEmitter<void>();
+  // Fires whenever the Included / Excluded lists change
+  readonly onDidChange = this._emitter.event;
+
+  // Local paths the user moved to "Excluded"; kept across refreshes
+  private excludedPaths = new Set<string>();
+  private subscription: vscode.Disposable;
+
+  constructor(private tfvc: TFVC, private store: PendingStore, rootPath: string) {
+    this.sourceControl = vscode.scm.createSourceControl("tfvc", "TFVC", vscode.Uri.file(rootPath));
+    this.sourceControl.inputBox.placeholder = "Check-in comment (Ctrl+Enter to check in)";
+    // The provider is passed along so the command checks in this folder in multi-root workspaces
+    this.sourceControl.acceptInputCommand = { command: "vstfs.scm.checkIn", title: "Check In", arguments: [this.sourceControl] };
+    this.sourceControl.quickDiffProvider = this;
+
+    this.included = this.sourceControl.createResourceGroup("included", "Included Changes");
+    this.excluded = this.sourceControl.createResourceGroup("excluded", "Excluded Changes");
+    this.excluded.hideWhenEmpty = true;
+    // Untracked / deleted-on-disk files; nothing is pended until the user promotes it
+    this.detected = this.sourceControl.createResourceGroup("detected", "Detected Changes");
+    this.detected.hideWhenEmpty = true;
+
+    this.subscription = store.onDidChange(() => this.update());
+  }
+
+  // Reloads the shared store, detected changes included; the groups update when it fires
+  refresh(): Promise<void> {
+    return this.store.refresh(["candidates"]);
+  }
+
+  // Keeps detected changes current with every reload while a view lists them
+  watchDetected(): vscode.Disposable {
+    return this.store.watch("candidates");
+  }
+
+  private get pending(): TFPendingItem[] {
+    return this.store.items;
+  }
+
+  private get candidates(): TFPendingItem[] {
+    return this.store.candidates;
+  }
+
+  detectedChanges(): TFPendingItem[] {
+    return this.candidates;
+  }
+
+  async promote(states: { resourceUri: vscode.Uri }[]): Promise<void> {
+    const wanted = new Set(states.map(s => key(s.resourceUri.fsPath)));
+    await this.tfvc.promote(this.candidates.filter(c => wanted.has(key(c.file))));
+    await this.refresh();
+  }
+
+  includedFiles(): string[] {
+    return this.includedChanges().map(p => p.file);
+  }
+
+  hasExcluded(): boolean {
+    return this.pending.some(p => this.isExcluded(p.file));
+  }
+
+  // Gutter markers diff against the workspace version; the content provider caches it,
+  // so typing in the editor never starts a TF.exe process
+  provideOriginalResource(uri: vscode.Uri): vscode.Uri | undefined {
+    if (uri.scheme !== "file") return undefined;
+    const serverPath = this.tfvc.toServerPath(uri.fsPath);
+    if (!serverPath.startsWith("$/")) return undefined;
+    // Pending adds have no server version to compare against
+    const pending = this.pending.find(p => key(p.file) === key(uri.fsPath));
+    if (pending?.action === "add") return undefined;
+    return toTfvcUri(serverPath, WORKSPACE_VERSION);
+  }
+
+  exclude(states: { resourceUri: vscode.Uri }[]) {
+    for (const s of states) this.excludedPaths.add(key(s.resourceUri.fsPath));
+    this.update();
+  }
+
+  include(states: { resourceUri: vscode.Uri }[]) {
+    for (const s of states) this.excludedPaths.delete(key(s.resourceUri.fsPath));
+    this.update();
+  }
+
+  private isExcluded(file: string): boolean {
+    return this.excludedPaths.has(key(file));
+  }
+
+  private update() {
+    // Forget exclusions for files that are no longer pending
+    const live = new Set(this.pending.map(p => key(p.file)));
+    for (const p of [...this.excludedPaths]) {
+      if (!live.has(p)) this.excludedPaths.delete(p);
+    }
+
+    this.included.resourceStates = this.pending.filter(p => !this.isExcluded(p.file)).map(toResourceState);
+    this.excluded.resourceStates = this.pending.filter(p => this.isExcluded(p.file)).map(toResourceState);
+    this.detected.resourceStates = this.candidates.map(c => ({
+      ...toResourceState(c),
+      contextValue: `detected-${c.action}`,
+      command: { command: "vscode.open", title: "Open File", arguments: [vscode.Uri.file(c.file)] }
+    }));
+    this.sourceControl.count = this.included.resourceStates.length;
+    this._emitter.fire();
+  }
+
+  includedChanges(): TFPendingItem[] {
+    return this.pending.filter(p => !this.isExcluded(p.file));
+  }
+
+  excludedChanges(): TFPendingItem[] {
+    return this.pending.filter(p => this.isExcluded(p.file));
+  }
+
+  dispose() {
+    this.subscription.dispose();
+    this._emitter.dispose();
+    this.sourceControl.dispose();
+  }
+}
+
+function toResourceState(pending: TFPendingItem): PendingResourceState {
+  const uri = vscode.Uri.file(pending.file);
+  return {
+    pending,
+    resourceUri: uri,
+    contextValue: `pending-${pending.action}`,
+    // Edits open as a diff against the workspace version, like git's working tree changes
+    command: hasBase(pending.action)
+      ? { command: "vstfs.diffFile", title: "Compare with Workspace Version", arguments: [uri] }
+      : { command: "vscode.open", title: "Open File", arguments: [uri] },
+    decorations: {
+      strikeThrough: pending.action === "delete",
+      tooltip: `${pending.action.toUpperCase()} — ${pending.file}`,
+      iconPath: new vscode.ThemeIcon(actionIcon(pending.action))
+    }
+  };
+}
+
+function hasBase(action: TFPendingItem["action"]): boolean {
+  return action === "edit" || action === "rename" || action === "merge";
+}
+
+function actionIcon(action: TFPendingItem["action"]): string {
+  switch (action) {
+    case "add": return "add";
+    case "delete": return "trash";
+    case "rename": return "arrow-both";
+    case "merge": return "git-merge";
+    default: return "edit";
+  }
+}
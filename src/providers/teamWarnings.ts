@@ -0,0 +1,41 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { PendingStore, key } from "../pendingStore";
+
+// Warns when the user starts editing something another user has locked or checked out, so binary
+// assets that can't be merged don't end up edited on both sides. Each file is asked about once per session.
+export class TeamEditWarnings implements vscode.Disposable {
+  private checked = new Set<string>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private store: PendingStore, private root: string) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.contentChanges.length > 0 && e.document.uri.scheme === "file") void this.check(e.document.uri.fsPath);
+      })
+    );
+  }
+
+  private async check(file: string) {
+    const rel = path.relative(this.root, file);
+    if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) return;
+    const k = key(file);
+    if (this.checked.has(k) || !vscode.workspace.getConfiguration("vstfs").get<boolean>("showOtherUsersCheckouts", true)) return;
+    this.checked.add(k);
+    const others = await this.store.loadOthersOn(file);
+    if (others.length === 0) return;
+
+    const lockers = others.filter(o => o.lock && o.lock !== "none");
+    const who = (lockers.length ? lockers : others).map(o => o.user || "another user").join(", ");
+    const message = lockers.length
+      ? `${path.basename(file)} is locked by ${who}. Your changes may not be checked in.`
+      : `${path.basename(file)} is checked out by ${who}. Coordinate before editing to avoid a merge.`;
+    vscode.window.showWarningMessage(message, "Show Team Changes").then(choice => {
+      if (choice === "Show Team Changes") vscode.commands.executeCommand("vstfs.teamPendingChanges.focus");
+    });
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
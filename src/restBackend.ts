@@ -0,0 +1,303 @@
+import * as vscode from "vscode";
+import * as http from "http";
+import * as https from "https";
+import { TFVC, TFHistoryItem, TFPendingItem, TFShelveset, TFLabel, TFWorkItemRef } from "./tfvc";
+import { VstfsConfig } from "./config";
+import { TfvcBackend } from "./backend";
+import { activeSignal, cancelledError } from "./runner";
+
+// Oldest version that has every endpoint used here, so TFS 2019 servers work as well as Azure DevOps
+const API_VERSION = "5.0";
+
+interface RestIdentity {
+  id?: string;
+  displayName?: string;
+  uniqueName?: string;
+}
+
+interface RestChangeset {
+  changesetId: number;
+  author?: RestIdentity;
+  checkedInBy?: RestIdentity;
+  createdDate: string;
+  comment?: string;
+  workItems?: { id: number; title?: string }[];
+}
+
+interface RestChange {
+  changeType: string;
+  item: { path: string };
+  // Previous name of a renamed item
+  sourceServerItem?: string;
+}
+
+interface RestBranch {
+  path: string;
+  children?: RestBranch[];
+}
+
+interface RestShelveset {
+  name: string;
+  owner?: RestIdentity;
+  createdDate: string;
+  comment?: string;
+}
+
+interface RestLabel {
+  name: string;
+  owner?: RestIdentity;
+  modifiedDate: string;
+  description?: string;
+  labelScope?: string;
+}
+
+// Reads from the Azure DevOps / TFS REST API. Pending changes are local workspace state
+// the REST API can't see, so those still come from TF.exe.
+export class RestBackend implements TfvcBackend {
+  private userId: string | undefined;
+
+  constructor(
+    private config: VstfsConfig,
+    private tfvc: TFVC,
+    private output: vscode.OutputChannel,
+    private getToken: () => Promise<string | undefined>
+  ) {}
+
+  // The changesets endpoint lists no files. History of a specific item (annotate, Show History) gets
+  // that item's changes from each changeset; the folder-wide history leaves them to changeset().
+  async history(target: string = ".", max: number = 50): Promise<TFHistoryItem[]> {
+    const itemPath = target === "." ? this.config.serverPath || "$/" : this.serverPath(target);
+    const result = await this.get<{ value: RestChangeset[] }>(this.projectUrl("changesets"), {
+      "searchCriteria.itemPath": itemPath,
+      "searchCriteria.followRenames": "true",
+      "$top": String(max)
+    });
+    const items = result.value.map(toHistoryItem);
+    if (target === ".") return items;
+
+    // Newest first: a rename sends the older changesets to the item's previous name
+    const changes = await Promise.all(items.map(h => this.changes(h.changesetId)));
+    let current = itemPath;
+    items.forEach((item, i) => {
+      const own = changes[i].filter(c => isUnder(c.item.path, current));
+      item.files = own.map(c => ({ path: c.item.path, change: c.changeType }));
+      const renamed = own.find(c => samePath(c.item.path, current) && /rename/i.test(c.changeType) && c.sourceServerItem);
+      if (renamed) current = renamed.sourceServerItem!;
+    });
+    return items;
+  }
+
+  async changeset(id: number): Promise<TFHistoryItem | null> {
+    let cs: RestChangeset;
+    try {
+      cs = await this.get<RestChangeset>(this.projectUrl(`changesets/${id}`), { includeWorkItems: "true" });
+    } catch (e: any) {
+      if (e?.status === 404) return null;
+      throw e;
+    }
+    const changes = await this.changes(id);
+    return {
+      ...toHistoryItem(cs),
+      files: changes.map(c => ({ path: c.item.path, change: c.changeType })),
+      workItems: (cs.workItems || []).map((wi): TFWorkItemRef => ({ id: wi.id, title: wi.title }))
+    };
+  }
+
+  pendingChanges(): Promise<TFPendingItem[]> {
+    return this.tfvc.pendingChanges();
+  }
+
+  // The raw item rather than JSON, which only carries text content
+  async getFileAtChangeset(file: string, id: number): Promise<string> {
+    const bytes = await this.fetch(this.projectUrl("items"), {
+      path: this.serverPath(file),
+      "versionDescriptor.versionType": "changeset",
+      "versionDescriptor.version": String(id),
+      "$format": "octetStream"
+    }, "application/octet-stream");
+    return decodeContent(bytes);
+  }
+
+  async listBranches(): Promise<string[]> {
+    const result = await this.get<{ value: RestBranch[] }>(this.projectUrl("branches"), { includeChildren: "true" });
+    const paths: string[] = [];
+    const walk = (branches: RestBranch[]) => branches.forEach(b => {
+      paths.push(b.path);
+      walk(b.children || []);
+    });
+    walk(result.value);
+    return paths;
+  }
+
+  // owner: undefined = current user, "*" = everyone, like the TF.exe backend
+  async shelvesets(owner?: string): Promise<TFShelveset[]> {
+    const query: Record<string, string> = { "requestData.includeDetails": "true" };
+    if (owner !== "*") {
+      const o = owner || await this.currentUserId();
+      if (o) query["requestData.owner"] = o;
+    }
+    const result = await this.get<{ value: RestShelveset[] }>(this.collectionUrl("shelvesets"), query);
+    return result.value.map(s => ({
+      name: s.name,
+      owner: identityName(s.owner),
+      date: new Date(s.createdDate),
+      comment: s.comment || ""
+    }));
+  }
+
+  async labels(filter?: string): Promise<TFLabel[]> {
+    const query: Record<string, string> = { "requestData.labelScope": this.config.serverPath || "$/" };
+    if (filter) query["requestData.name"] = filter;
+    const result = await this.get<{ value: RestLabel[] }>(this.projectUrl("labels"), query);
+    return result.value.map(l => ({
+      name: l.name,
+      owner: identityName(l.owner),
+      date: new Date(l.modifiedDate),
+      comment: l.description || "",
+      scope: l.labelScope
+    }));
+  }
+
+  private async changes(id: number): Promise<RestChange[]> {
+    return (await this.get<{ value: RestChange[] }>(this.projectUrl(`changesets/${id}/changes`), { "$top": "10000" })).value;
+  }
+
+  private async currentUserId(): Promise<string | undefined> {
+    if (!this.userId) {
+      const data = await this.get<{ authenticatedUser?: RestIdentity }>(`${this.tfvc.getCollectionUrl()}/_apis/connectionData`, {});
+      this.userId = data.authenticatedUser?.id;
+    }
+    return this.userId;
+  }
+
+  // "rest" in vstfs.commandTimeouts, else its default; 0 waits forever
+  private timeoutMs(): number {
+    const timeouts = vscode.workspace
+      .getConfiguration("vstfs", this.config.root ? vscode.Uri.file(this.config.root) : undefined)
+      .get<Record<string, number>>("commandTimeouts", {});
+    const seconds = timeouts.rest ?? timeouts.default ?? 120;
+    return Math.max(0, seconds) * 1000;
+  }
+
+  private serverPath(target: string): string {
+    return target.startsWith("$/") ? target : this.tfvc.toServerPath(target);
+  }
+
+  private collectionUrl(resource: string): string {
+    return `${this.tfvc.getCollectionUrl()}/_apis/tfvc/${resource}`;
+  }
+
+  private projectUrl(resource: string): string {
+    const project = this.config.project ? `/${encodeURIComponent(this.config.project)}` : "";
+    return `${this.tfvc.getCollectionUrl()}${project}/_apis/tfvc/${resource}`;
+  }
+
+  private async get<T>(base: string, query: Record<string, string>): Promise<T> {
+    return JSON.parse((await this.fetch(base, query, "application/json")).toString("utf8")) as T;
+  }
+
+  private async fetch(base: string, query: Record<string, string>, accept: string): Promise<Buffer> {
+    const url = new URL(base);
+    for (const [k, v] of Object.entries(query)) url.searchParams.set(k, v);
+    url.searchParams.set("api-version", API_VERSION);
+
+    const headers: Record<string, string> = { Accept: accept };
+    const token = await this.getToken();
+    if (token) headers.Authorization = `Basic ${Buffer.from(`:${token}`).toString("base64")}`;
+
+    this.output.appendLine(`VSTFS: REST GET ${url.pathname}${url.search}`);
+    const { status, body } = await request(url, headers, { timeoutMs: this.timeoutMs(), signal: activeSignal() });
+    // Azure DevOps answers unauthenticated calls with 203 and a sign-in page instead of 401
+    if (status === 401 || status === 203) {
+      throw Object.assign(new Error("REST request was not authorized. Set a personal access token for the REST backend."), { status });
+    }
+    if (status >= 400) {
+      let message = body.toString("utf8");
+      try {
+        message = JSON.parse(message).message || message;
+      } catch {
+        // not JSON; keep the raw body
+      }
+      throw Object.assign(new Error(`REST ${status} for ${url.pathname}: ${message}`), { status });
+    }
+    return body;
+  }
+}
+
+// GET with the client's limits: stopped after timeoutMs, or when the signal aborts
+export function request(
+  url: URL,
+  headers: Record<string, string>,
+  options: { timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<{ status: number; body: Buffer }> {
+  const lib = url.protocol === "http:" ? http : https;
+  const { timeoutMs, signal } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+
+    let timedOut = false;
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      finish();
+    };
+    const fail = (e: Error) => settle(() => {
+      if (signal?.aborted) return reject(cancelledError());
+      if (timedOut) {
+        return reject(Object.assign(
+          new Error(`REST request to ${url.host} timed out after ${Math.round(timeoutMs! / 1000)} s.`),
+          { timedOut: true }
+        ));
+      }
+      reject(e);
+    });
+
+    const req = lib.request(url, { method: "GET", headers }, res => {
+      const chunks: Buffer[] = [];
+      res.on("data", chunk => chunks.push(chunk));
+      res.on("end", () => settle(() => resolve({ status: res.statusCode || 0, body: Buffer.concat(chunks) })));
+      res.on("error", fail);
+      // Destroying the request mid-body closes the response without "end"
+      res.on("close", () => { if (!res.complete) fail(new Error(`REST response from ${url.host} was cut off.`)); });
+    });
+    const onAbort = () => req.destroy();
+    if (timeoutMs) timer = setTimeout(() => { timedOut = true; req.destroy(); }, timeoutMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    req.on("error", fail);
+    req.end();
+  });
+}
+
+function toHistoryItem(cs: RestChangeset): TFHistoryItem {
+  return {
+    changesetId: cs.changesetId,
+    author: identityName(cs.author || cs.checkedInBy),
+    date: new Date(cs.createdDate),
+    comment: cs.comment || "",
+    files: []
+  };
+}
+
+// Server paths compare without regard to case
+function samePath(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function isUnder(item: string, folder: string): boolean {
+  return samePath(item, folder) || item.toLowerCase().startsWith(folder.toLowerCase().replace(/\/?$/, "/"));
+}
+
+// Text the way the client's view shows it: UTF-16 by its byte order mark, else UTF-8 without the mark
+function decodeContent(bytes: Buffer): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes);
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+function identityName(identity?: RestIdentity): string {
+  return identity?.displayName || identity?.uniqueName || "";
+}
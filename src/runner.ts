@@ -0,0 +1,147 @@
+import { execFile } from "node:child_process";
+import { AsyncLocalStorage } from "node:async_hooks";
+import * as path from "path";
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+export interface RunOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  // Show the process window, so the client's sign-in UI can appear (Windows only)
+  visible?: boolean;
+  // Kill the process after this many milliseconds; 0 or undefined waits forever
+  timeoutMs?: number;
+  // Kill the process when aborted
+  signal?: AbortSignal;
+}
+
+// Starts the TFVC client. TFVC only talks to the outside world through this, so another
+// implementation can stand in for TF.exe (a different client, a recording, a fake).
+export interface CommandRunner {
+  // Rejects on a non-zero exit; the error message is the client's output
+  run(file: string, args: string[], options: RunOptions): Promise<CommandResult>;
+}
+
+export const execFileRunner: CommandRunner = {
+  run(file, args, options) {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) return reject(cancelledError());
+      execFile(
+        file,
+        args,
+        {
+          cwd: options.cwd,
+          env: options.env,
+          windowsHide: !options.visible,
+          maxBuffer: 32 * 1024 * 1024,
+          timeout: options.timeoutMs || 0,
+          signal: options.signal
+        },
+        (err, stdout, stderr) => {
+          if (err && options.signal?.aborted) return reject(cancelledError());
+          if (err && err.killed && options.timeoutMs) {
+            const seconds = Math.round(options.timeoutMs / 1000);
+            return reject(Object.assign(
+              new Error(`${path.basename(file)} ${args[0] ?? ""} timed out after ${seconds} s and was stopped.`),
+              { timedOut: true }
+            ));
+          }
+          if (err) {
+            const msg = (stderr || stdout || String(err)).toString();
+            return reject(Object.assign(new Error(msg), { code: err.code, stdout, stderr }));
+          }
+          resolve({ stdout, stderr });
+        }
+      );
+    });
+  }
+};
+
+export function cancelledError(): Error {
+  return Object.assign(new Error("The operation was cancelled."), { cancelled: true });
+}
+
+export function isCancelled(e: any): boolean {
+  return !!e?.cancelled;
+}
+
+// The abort signal of the user action in progress (e.g. a cancellable notification). Processes started
+// anywhere below `withCancellation` pick it up, so it doesn't have to be passed through every call.
+const currentSignal = new AsyncLocalStorage<AbortSignal>();
+
+export function withCancellation<T>(signal: AbortSignal, task: () => Promise<T>): Promise<T> {
+  return currentSignal.run(signal, task);
+}
+
+export function activeSignal(): AbortSignal | undefined {
+  return currentSignal.getStore();
+}
+
+// Background work started from inside a user action (e.g. the view refresh after a check-in) outlives
+// it, so it must not pick up the action's signal
+export function withoutCancellation<T>(task: () => T): T {
+  return currentSignal.exit(task);
+}
+
+// Readers-writer queue for the client processes of one workspace: reads run side by side, a write
+// waits for the running operations and then runs alone. Operations start in arrival order, so a
+// steady stream of view refreshes can't hold a check-in back.
+export class CommandQueue {
+  private reads = 0;
+  private writing = false;
+  private waiting: { write: boolean; start: () => void }[] = [];
+
+  async run<T>(write: boolean, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(write, signal);
+    try {
+      return await task();
+    } finally {
+      if (write) this.writing = false;
+      else this.reads--;
+      this.drain();
+    }
+  }
+
+  private acquire(write: boolean, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(cancelledError());
+    if (this.waiting.length === 0 && this.canStart(write)) {
+      this.start(write);
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(w => w !== entry);
+        reject(cancelledError());
+        this.drain();
+      };
+      const entry = {
+        write,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          this.start(write);
+          resolve();
+        }
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(entry);
+    });
+  }
+
+  private canStart(write: boolean): boolean {
+    return write ? !this.writing && this.reads === 0 : !this.writing;
+  }
+
+  private start(write: boolean) {
+    if (write) this.writing = true;
+    else this.reads++;
+  }
+
+  private drain() {
+    while (this.waiting.length > 0 && this.canStart(this.waiting[0].write)) {
+      this.waiting.shift()!.start();
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import type { VstfsApi } from "../extension";
+import { TFConflict, TFPendingItem, TFVC } from "../tfvc";
+import { FakeTf } from "./fakeTf";
+import { ScriptedUi } from "./scriptedUi";
+
+// Drives the commands in extension.ts against the fake tf, in the order a user would:
+// get, edit, check in, shelve, branch, merge, resolve. Later tests build on the state earlier ones leave.
+suite("Commands against a fake tf", () => {
+  const root = vscode.workspace.workspaceFolders![0].uri.fsPath;
+  const local = (rel: string) => path.join(root, ...rel.split("/"));
+  const read = (rel: string) => fs.readFileSync(local(rel), "utf8");
+  const server = (rel: string) => `$/Proj/Main/${rel}`;
+
+  let fake: FakeTf;
+  let ui: ScriptedUi;
+  let initial: number;
+
+  // Commands the extension ran since the test started
+  const ran = (command: string) => fake.calls.filter(args => args[0] === command);
+
+  suiteSetup(async () => {
+    fake = new FakeTf(root);
+    initial = fake.commit({ "readme.txt": "hello\n", "src/app.ts": "line 1\nline 2\n" }, "Initial import");
+    fake.commit({ "src/app.ts": "line 1\nline 2 changed\n" }, "Change app");
+
+    const api = await vscode.extensions.getExtension<VstfsApi>("your-name.vstfs")!.activate();
+    await api.useRunner(fake);
+  });
+
+  setup(() => {
+    fake.calls.length = 0;
+    ui = new ScriptedUi();
+  });
+
+  teardown(() => {
+    ui.dispose();
+  });
+
+  test("Get Latest downloads the mapped folder", async () => {
+    await vscode.commands.executeCommand("vstfs.getLatest");
+
+    assert.strictEqual(read("readme.txt"), "hello\n");
+    assert.strictEqual(read("src/app.ts"), "line 1\nline 2 changed\n");
+    assert.ok(ui.infos.includes("TFVC: Get Latest completed."));
+    assert.deepStrictEqual(ui.errors, []);
+  });
+
+  test("Check Out for Edit pends an edit", async () => {
+    await vscode.commands.executeCommand("vstfs.checkout", vscode.Uri.file(local("src/app.ts")));
+
+    assert.strictEqual(fake.pending.get(server("src/app.ts"))?.action, "edit");
+  });
+
+  test("Compare with Workspace Version reads the W version", async () => {
+    fs.writeFileSync(local("src/app.ts"), "line 1\nline 2 changed\nline 3\n");
+
+    await vscode.commands.executeCommand("vstfs.diffFile", vscode.Uri.file(local("src/app.ts")));
+
+    assert.ok(ran("view").some(args => args[1] === `${server("src/app.ts")};W`));
+    assert.deepStrictEqual(ui.errors, []);
+  });
+
+  test("Compare from a Pending Changes item diffs that item, not the active editor", async () => {
+    await vscode.window.showTextDocument(vscode.Uri.file(local("readme.txt")));
+    const item: TFPendingItem = { action: "edit", file: local("src/app.ts") };
+
+    await vscode.commands.executeCommand("vstfs.diffFile", item);
+
+    const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+    assert.ok(input instanceof vscode.TabInputTextDiff);
+    assert.strictEqual(input.modified.fsPath, local("src/app.ts"));
+    assert.ok(!ran("view").some(args => args[1].startsWith(server("readme.txt"))));
+    await vscode.commands.executeCommand("workbench.action.closeAllEditors");
+  });
+
+  test("Check In commits the selected changes with comment and work items", async () => {
+    ui.pickAll().confirm("Yes, Check In").input("Add line 3 #42");
+
+    await vscode.commands.executeCommand("vstfs.checkIn");
+
+    const cs = fake.changesets[fake.changesets.length - 1];
+    assert.strictEqual(cs.comment, "Add line 3 #42");
+    assert.deepStrictEqual(cs.workItems, [42]);
+    assert.deepStrictEqual(cs.changes, [{ serverPath: server("src/app.ts"), change: "edit" }]);
+    assert.strictEqual(fake.pending.size, 0);
+    ui.assertDone();
+  });
+
+  test("Check In does nothing when the confirmation is declined", async () => {
+    await vscode.commands.executeCommand("vstfs.checkout", vscode.Uri.file(local("readme.txt")));
+    const before = fake.latest;
+    ui.pickAll().confirm(undefined);
+
+    await vscode.commands.executeCommand("vstfs.checkIn");
+
+    assert.strictEqual(fake.latest, before);
+    assert.strictEqual(ran("checkin").length, 0);
+  });
+
+  test("Undo Pending Change restores the workspace version", async () => {
+    fs.writeFileSync(local("readme.txt"), "scribbles\n");
+    ui.confirm("Yes");
+
+    await vscode.commands.executeCommand("vstfs.undoItem", vscode.Uri.file(local("readme.txt")));
+
+    assert.strictEqual(fake.pending.size, 0);
+    assert.strictEqual(read("readme.txt"), "hello\n");
+  });
+
+  test("Renaming in VS Code pends a rename that the Pending Changes item undoes", async () => {
+    const edit = new vscode.WorkspaceEdit();
+    edit.renameFile(vscode.Uri.file(local("readme.txt")), vscode.Uri.file(local("docs/readme.txt")));
+    assert.ok(await vscode.workspace.applyEdit(edit));
+
+    const renamed = fake.pending.get(server("docs/readme.txt"));
+    assert.strictEqual(renamed?.action, "rename");
+    assert.strictEqual(renamed?.source, server("readme.txt"));
+    assert.strictEqual(read("docs/readme.txt"), "hello\n");
+    assert.ok(!fs.existsSync(local("readme.txt")));
+
+    ui.confirm("Yes");
+    const item: TFPendingItem = { action: "rename", file: local("docs/readme.txt") };
+    await vscode.commands.executeCommand("vstfs.undoItem", item);
+
+    assert.strictEqual(fake.pending.size, 0);
+    assert.strictEqual(read("readme.txt"), "hello\n");
+  });
+
+  test("A case-only rename in VS Code pends a rename and leaves one item on disk", async () => {
+    const edit = new vscode.WorkspaceEdit();
+    edit.renameFile(vscode.Uri.file(local("readme.txt")), vscode.Uri.file(local("README.txt")));
+    assert.ok(await vscode.workspace.applyEdit(edit));
+
+    assert.strictEqual(fake.pending.get(server("README.txt"))?.action, "rename");
+    assert.deepStrictEqual(fs.readdirSync(root).filter(f => /^readme\.txt$/i.test(f)), ["README.txt"]);
+    assert.strictEqual(read("README.txt"), "hello\n");
+
+    ui.confirm("Yes");
+    await vscode.commands.executeCommand("vstfs.undoItem", { action: "rename", file: local("README.txt") } as TFPendingItem);
+
+    assert.strictEqual(fake.pending.size, 0);
+    assert.deepStrictEqual(fs.readdirSync(root).filter(f => /^readme\.txt$/i.test(f)), ["readme.txt"]);
+  });
+
+  test("Promote pends detected adds", async () => {
+    fs.writeFileSync(local("notes.md"), "# Notes\n");
+    ui.pickAll();
+
+    await vscode.commands.executeCommand("vstfs.promote");
+
+    assert.strictEqual(fake.pending.get(server("notes.md"))?.action, "add");
+  });
+
+  test("Check In All commits every pending change", async () => {
+    ui.input("Add notes");
+
+    await vscode.commands.executeCommand("vstfs.checkInAll");
+
+    const cs = fake.changesets[fake.changesets.length - 1];
+    assert.strictEqual(cs.comment, "Add notes");
+    assert.deepStrictEqual(cs.changes, [{ serverPath: server("notes.md"), change: "add" }]);
+    assert.strictEqual(fake.pending.size, 0);
+  });
+
+  test("Shelve with undo, unshelve and delete a shelveset", async () => {
+    await vscode.commands.executeCommand("vstfs.checkout", vscode.Uri.file(local("readme.txt")));
+    fs.writeFileSync(local("readme.txt"), "work in progress\n");
+
+    ui.pickAll().input("wip").input("Half done").pick("Shelve and undo pending changes");
+    await vscode.commands.executeCommand("vstfs.shelve");
+    assert.strictEqual(fake.pending.size, 0);
+    assert.strictEqual(read("readme.txt"), "hello\n");
+
+    ui.pick("wip");
+    await vscode.commands.executeCommand("vstfs.unshelve");
+    assert.strictEqual(fake.pending.get(server("readme.txt"))?.action, "edit");
+    assert.strictEqual(read("readme.txt"), "work in progress\n");
+
+    ui.pick("wip").confirm("Yes");
+    await vscode.commands.executeCommand("vstfs.deleteShelveset");
+    assert.ok(ran("shelve").some(args => args.includes("wip") && args.some(a => /^[-/]delete$/.test(a))));
+    ui.assertDone();
+  });
+
+  test("Undo All discards every pending change after confirmation", async () => {
+    ui.confirm("Yes");
+
+    await vscode.commands.executeCommand("vstfs.undoAll");
+
+    assert.strictEqual(fake.pending.size, 0);
+    assert.strictEqual(read("readme.txt"), "hello\n");
+  });
+
+  test("Create Branch pends a branch that Check In All commits", async () => {
+    ui.pick("$/Proj/Main").input("$/Proj/Dev");
+    await vscode.commands.executeCommand("vstfs.createBranch");
+    assert.strictEqual(fake.pending.get("$/Proj/Dev/readme.txt")?.action, "branch");
+
+    ui.input("Branch Dev");
+    await vscode.commands.executeCommand("vstfs.checkInAll");
+    assert.strictEqual(fake.contentAt("$/Proj/Dev/readme.txt"), "hello\n");
+    assert.strictEqual(fake.pending.size, 0);
+  });
+
+  test("Merge brings the source branch's changes into the target", async () => {
+    fake.commit({ "$/Proj/Dev/readme.txt": "hello from dev\n" }, "Dev change");
+    ui.pick("$/Proj/Dev").pick("$/Proj/Main").pick("All changes");
+
+    await vscode.commands.executeCommand("vstfs.merge");
+
+    assert.strictEqual(read("readme.txt"), "hello from dev\n");
+    assert.strictEqual(fake.pending.get(server("readme.txt"))?.action, "merge");
+    assert.ok(ui.infos.some(m => m.includes("Merge completed without conflicts")));
+
+    ui.input("Merge Dev");
+    await vscode.commands.executeCommand("vstfs.checkInAll");
+    assert.strictEqual(fake.contentAt(server("readme.txt")), "hello from dev\n");
+  });
+
+  test("Merge of a changeset range passes /version", async () => {
+    const id = fake.commit({ "$/Proj/Dev/src/app.ts": "from dev\n" }, "Dev app change");
+    ui.pick("$/Proj/Dev").pick("$/Proj/Main").pick("Changeset range...").pick(`C${id}`).pick(`C${id}`);
+
+    await vscode.commands.executeCommand("vstfs.merge");
+
+    assert.ok(ran("merge").some(args => args.some(a => a.endsWith(`version:C${id}~C${id}`))));
+    assert.strictEqual(read("src/app.ts"), "from dev\n");
+    ui.assertDone();
+
+    ui.confirm("Yes");
+    await vscode.commands.executeCommand("vstfs.undoAll");
+  });
+
+  test("Unresolved conflicts block check-in", async () => {
+    await vscode.commands.executeCommand("vstfs.checkout", vscode.Uri.file(local("readme.txt")));
+    fake.conflicts.set(server("readme.txt"), "The source and target both have changes");
+    ui.input("Blocked");
+
+    await assert.rejects(Promise.resolve(vscode.commands.executeCommand("vstfs.checkInAll")));
+
+    assert.ok(ui.errors.some(m => m.startsWith("Check-in blocked: 1 unresolved conflict")));
+    assert.strictEqual(ran("checkin").length, 0);
+  });
+
+  test("Keep Target resolves a conflict", async () => {
+    const conflict: TFConflict = {
+      file: local("readme.txt"),
+      serverPath: server("readme.txt"),
+      description: "The source and target both have changes",
+      kind: "merge"
+    };
+
+    await vscode.commands.executeCommand("vstfs.conflicts.keepTarget", conflict);
+
+    assert.ok(ran("resolve").some(args => args.some(a => a.endsWith("auto:KeepYours"))));
+    assert.strictEqual(fake.conflicts.size, 0);
+
+    ui.confirm("Yes");
+    await vscode.commands.executeCommand("vstfs.undoAll");
+  });
+
+  test("Merge conflicts carry the merged source version and the version before it", async () => {
+    const tfvc = new TFVC("tf", root, process.env, {
+      serverUrl: "", project: "", workspace: "fakews", tfPath: "tf", root, serverPath: "$/Proj/Main",
+      authType: "integrated", auth: { type: "integrated" }
+    }, undefined, fake);
+    const id = fake.commit({ "$/Proj/Dev/readme.txt": "hello again from dev\n" }, "Dev readme again");
+    const first = (await tfvc.mergeCandidates("$/Proj/Dev", "$/Proj/Main"))[0].changesetId;
+    await tfvc.checkout([local("readme.txt")]);
+
+    await tfvc.merge("$/Proj/Dev", "$/Proj/Main");
+
+    const conflict = (await tfvc.conflicts()).find(c => c.serverPath === server("readme.txt"));
+    assert.strictEqual(conflict?.sourcePath, "$/Proj/Dev/readme.txt");
+    assert.strictEqual(conflict?.sourceVersion, id);
+    assert.strictEqual(conflict?.baseVersion, first - 1);
+
+    fake.conflicts.clear();
+    ui.confirm("Yes");
+    await vscode.commands.executeCommand("vstfs.undoAll");
+  });
+
+  test("Show Changeset loads the changeset's history entry", async () => {
+    await vscode.commands.executeCommand("vstfs.showChangeset", initial, root);
+
+    assert.ok(ran("history").some(args => args.some(a => a.endsWith(`version:C${initial}~C${initial}`))));
+    assert.deepStrictEqual(ui.errors, []);
+  });
+
+  test("Annotate replays the file's history", async () => {
+    const editor = await vscode.window.showTextDocument(vscode.Uri.file(local("src/app.ts")));
+
+    await vscode.commands.executeCommand("vstfs.annotate");
+
+    assert.ok(ran("history").length > 0);
+    assert.ok(ran("view").length > 0);
+    assert.deepStrictEqual(ui.errors, []);
+    await vscode.commands.executeCommand("vstfs.annotate.clear", editor.document.uri);
+    await vscode.commands.executeCommand("workbench.action.closeAllEditors");
+  });
+
+  test("Rollback pends the changes that undo later changesets", async () => {
+    ui.input(String(initial)).confirm("Yes");
+
+    await vscode.commands.executeCommand("vstfs.rollbackChangeset");
+
+    assert.strictEqual(read("src/app.ts"), "line 1\nline 2\n");
+    assert.strictEqual(fake.pending.get(server("src/app.ts"))?.action, "edit");
+
+    ui.confirm("Yes");
+    await vscode.commands.executeCommand("vstfs.undoAll");
+  });
+
+  test("Create Workspace asks for name, location and confirmation", async () => {
+    ui.input("second").pick("Server").confirm("Create");
+
+    await vscode.commands.executeCommand("vstfs.workspace.create");
+
+    assert.deepStrictEqual(fake.workspaces.find(w => w.name === "second"), { name: "second", location: "server", mappings: [] });
+  });
+
+  test("Switch Workspace leaves a workspace pinned by .vstfs.json alone", async () => {
+    ui.pick("second");
+
+    await vscode.commands.executeCommand("vstfs.workspace.switch");
+
+    assert.strictEqual(vscode.workspace.getConfiguration("vstfs", vscode.Uri.file(root)).inspect("workspace")?.workspaceValue, undefined);
+    assert.strictEqual(ran("workfold").length, 0);
+  });
+
+  test("Client errors are shown to the user", async () => {
+    fake.on("get", () => { throw new Error("TF30063: You are not authorized to access the server."); });
+    try {
+      await assert.rejects(Promise.resolve(vscode.commands.executeCommand("vstfs.getLatest")));
+      assert.ok(ui.errors.some(m => m.includes("TF30063")));
+    } finally {
+      fake.off("get");
+    }
+  });
+});
@@ -0,0 +1,751 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CommandResult, CommandRunner, RunOptions, cancelledError } from "../runner";
+
+// A scriptable stand-in for TF.exe: a small in-memory repository with one workspace mapped to a
+// local folder. It answers the commands TFVC runs (status, history, view, checkin, merge, branch, ...)
+// with output shaped like the real client's, and records every call.
+
+export interface FakeChangeset {
+  id: number;
+  owner: string;
+  date: Date;
+  comment: string;
+  changes: { serverPath: string; change: string }[];
+  workItems: number[];
+}
+
+export interface FakePending {
+  action: "add" | "edit" | "delete" | "rename" | "merge" | "branch";
+  // Rename, merge and branch source
+  source?: string;
+  // A merge that brings a new item into the target
+  newItem?: boolean;
+  lock?: string;
+}
+
+interface FakeShelveset {
+  name: string;
+  owner: string;
+  comment: string;
+  date: Date;
+  changes: { serverPath: string; pending: FakePending; content: string | null }[];
+}
+
+type Handler = (args: string[]) => string | Promise<string>;
+
+const OPTION = /^[-/]([A-Za-z]+)(?::([\s\S]*))?$/;
+const OPTIONS = new Set([
+  "associate", "auto", "candidate", "changeset", "cloak", "collection", "comment", "decloak", "delete", "format",
+  "location", "lock", "login", "map", "move", "new", "noprompt", "notes", "output", "owner", "preview", "recursive",
+  "replace", "shelveset", "stopafter", "unmap", "user", "version", "workspace"
+]);
+
+export class FakeTf implements CommandRunner {
+  readonly calls: string[][] = [];
+  readonly changesets: FakeChangeset[] = [];
+  readonly pending = new Map<string, FakePending>();
+  // Conflicts reported by `resolve /preview`, by server path
+  readonly conflicts = new Map<string, string>();
+  readonly workspaces: { name: string; location: string; mappings: { serverPath: string; localPath?: string }[] }[];
+  // False makes every /format:xml request fail like a client without XML output
+  supportsXml = true;
+  // Delay before each command answers, so tests can overlap and cancel commands
+  latency = 0;
+
+  private versions = new Map<string, { changeset: number; content: string | null }[]>();
+  // Changeset each item was last downloaded at; missing means never downloaded
+  private synced = new Map<string, number>();
+  private branchRoots: string[];
+  private merged = new Set<string>();
+  private shelvesets: FakeShelveset[] = [];
+  private handlers = new Map<string, Handler>();
+
+  constructor(readonly root: string, readonly serverPath = "$/Proj/Main", readonly user = "Test User") {
+    this.branchRoots = [serverPath];
+    this.workspaces = [{ name: "fakews", location: "local", mappings: [{ serverPath, localPath: root }] }];
+  }
+
+  // Replaces the built-in behaviour of a command; throw from the handler to fail it
+  on(command: string, handler: Handler): this {
+    this.handlers.set(command, handler);
+    return this;
+  }
+
+  // Back to the built-in behaviour
+  off(command: string): this {
+    this.handlers.delete(command);
+    return this;
+  }
+
+  // Seeds a changeset directly on the server (null deletes an item); returns its id
+  commit(files: Record<string, string | null>, comment = "", owner = this.user): number {
+    const id = this.latest + 1;
+    const changes = Object.entries(files).map(([item, content]) => {
+      const serverPath = this.toServer(item);
+      const exists = this.contentAt(serverPath, id) !== null;
+      this.addVersion(serverPath, id, content);
+      return { serverPath, change: content === null ? "delete" : exists ? "edit" : "add" };
+    });
+    this.changesets.push({ id, owner, date: changesetDate(id), comment, changes, workItems: [] });
+    return id;
+  }
+
+  get latest(): number {
+    return this.changesets.length > 0 ? this.changesets[this.changesets.length - 1].id : 0;
+  }
+
+  // Server content of an item at a changeset (latest when omitted); null when it doesn't exist
+  contentAt(serverPath: string, changeset = this.latest): string | null {
+    const versions = this.versions.get(serverPath) ?? [];
+    return [...versions].reverse().find(v => v.changeset <= changeset)?.content ?? null;
+  }
+
+  addBranchRoot(serverPath: string) {
+    if (!this.branchRoots.includes(serverPath)) this.branchRoots.push(serverPath);
+  }
+
+  async run(file: string, args: string[], options: RunOptions): Promise<CommandResult> {
+    this.calls.push(args);
+    if (options.signal?.aborted) throw cancelledError();
+    if (this.latency > 0) await delay(this.latency, options.signal);
+    const [command] = args;
+    try {
+      const handler = this.handlers.get(command);
+      const stdout = handler ? await handler(args) : this.execute(args);
+      return { stdout, stderr: "" };
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw Object.assign(new Error(msg), { code: 1, stdout: "", stderr: msg });
+    }
+  }
+
+  private execute(args: string[]): string {
+    const { command, items, options } = parseArgs(args);
+    const format = options.get("format");
+    if (format === "xml" && !this.supportsXml) {
+      throw new Error("TF10139: The value 'xml' is not valid for the /format option.");
+    }
+    switch (command) {
+      case "status": return this.status(items, options);
+      case "history": return this.history(items, options);
+      case "view": return this.view(items, options);
+      case "checkin": return this.checkin(items, options);
+      case "checkout": return this.pend(items, "edit", options.get("lock"));
+      case "add": return this.pend(items, "add");
+      case "delete": return this.deleteItems(items);
+      case "rename": return this.rename(items[0], items[1]);
+      case "undo": return this.undo(items, options);
+      case "get": return this.get();
+      case "merge": return this.merge(items, options);
+      case "branch": return this.branch(items[0], items[1]);
+      case "branches": return this.branches(format);
+      case "resolve": return this.resolve(items, options);
+      case "rollback": return this.rollback(options);
+      case "changeset": return this.changeset(Number(items[0]));
+      case "shelve": return this.shelve(items, options);
+      case "unshelve": return this.unshelve(items[0]);
+      case "shelvesets": return this.listShelvesets(options);
+      case "labels": return "No labels found.";
+      case "workfold": return this.workfold(items, options);
+      case "workspaces": return this.listWorkspaces();
+      case "workspace": return this.workspace(items, options);
+      default: throw new Error(`Unrecognized command: ${command}`);
+    }
+  }
+
+  // --- Workspace state ---
+
+  private status(items: string[], options: Map<string, string>): string {
+    const shelveset = options.get("shelveset");
+    if (shelveset !== undefined) {
+      const set = this.findShelveset(shelveset);
+      return this.pendingOutput(set.changes.map(c => ({ serverPath: c.serverPath, pending: c.pending })), options.get("format"), set.owner);
+    }
+    if (options.has("candidate")) {
+      return this.pendingOutput(this.candidates().map(serverPath => ({ serverPath, pending: { action: "add" as const } })), options.get("format"));
+    }
+    const scope = items[0] && items[0] !== "." ? this.toServer(items[0]) : undefined;
+    const changes = [...this.pending]
+      .filter(([serverPath]) => !scope || isUnder(serverPath, scope))
+      .map(([serverPath, pending]) => ({ serverPath, pending }));
+    return this.pendingOutput(changes, options.get("format"));
+  }
+
+  private pendingOutput(changes: { serverPath: string; pending: FakePending }[], format?: string, owner = this.user): string {
+    if (format === "xml") {
+      const rows = changes.map(({ serverPath, pending }) => {
+        const local = this.toLocal(serverPath);
+        return `      <PendingChange server="${xml(serverPath)}"${local ? ` local="${xml(local)}"` : ""} chg="${changeType(pending)}" ` +
+          `lock="${pending.lock ?? "none"}" type="file" ver="${this.synced.get(serverPath) ?? 0}" date="${changesetDate(this.latest).toISOString()}"/>`;
+      });
+      return [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<PendingSets>`,
+        ...(rows.length > 0 ? [
+          `  <PendingSet computer="FAKE" owner="FAKE\\${xml(owner)}" ownerdisp="${xml(owner)}" ownership="1">`,
+          `    <PendingChanges>`,
+          ...rows,
+          `    </PendingChanges>`,
+          `  </PendingSet>`
+        ] : []),
+        `</PendingSets>`
+      ].join("\n");
+    }
+    if (changes.length === 0) return "There are no pending changes.";
+    if (format === "detailed") {
+      return changes.map(({ serverPath, pending }) => [
+        serverPath,
+        `  User       : ${owner}`,
+        `  Date       : ${changesetDate(this.latest).toUTCString()}`,
+        `  Lock       : ${pending.lock ?? "none"}`,
+        `  Change     : ${changeType(pending).toLowerCase()}`,
+        `  Local item : [FAKE] ${this.toLocal(serverPath) ?? ""}`,
+        ""
+      ].join("\n")).join("\n");
+    }
+    return [
+      "File name  Change  Local path",
+      "---------- ------- ----------------------------------",
+      ...changes.map(({ serverPath, pending }) =>
+        `${path.posix.basename(serverPath)}  ${changeType(pending).toLowerCase()}  ${this.toLocal(serverPath) ?? serverPath}`),
+      "",
+      `${changes.length} change(s)`
+    ].join("\n");
+  }
+
+  // Local files under the mapping that the server doesn't know and nothing is pended for
+  private candidates(): string[] {
+    const found: string[] = [];
+    const visit = (dir: string) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith(".")) continue;
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          visit(full);
+          continue;
+        }
+        const serverPath = this.toServer(full);
+        if (this.contentAt(serverPath) === null && !this.pending.has(serverPath)) found.push(serverPath);
+      }
+    };
+    if (fs.existsSync(this.root)) visit(this.root);
+    return found;
+  }
+
+  private pend(items: string[], action: FakePending["action"], lock?: string): string {
+    for (const item of items) {
+      const serverPath = this.toServer(item);
+      if (action === "edit" && this.contentAt(serverPath) === null) {
+        throw new Error(`The item ${serverPath} could not be found in your workspace, or you do not have permission to access it.`);
+      }
+      if (action === "add" && !fs.existsSync(this.toLocal(serverPath) ?? "")) {
+        throw new Error(`The item ${item} could not be found.`);
+      }
+      const existing = this.pending.get(serverPath);
+      this.pending.set(serverPath, existing ? { ...existing, lock: lock ?? existing.lock } : { action, lock: lock === "none" ? undefined : lock });
+    }
+    return items.map(i => path.basename(i)).join("\n");
+  }
+
+  private deleteItems(items: string[]): string {
+    for (const item of items) {
+      const serverPath = this.toServer(item);
+      if (this.contentAt(serverPath) === null) throw new Error(`The item ${serverPath} could not be found in your workspace.`);
+      this.pending.set(serverPath, { action: "delete" });
+      const local = this.toLocal(serverPath);
+      if (local) fs.rmSync(local, { force: true });
+    }
+    return items.map(i => path.basename(i)).join("\n");
+  }
+
+  private rename(from: string, to: string): string {
+    const source = this.toServer(from);
+    const target = this.toServer(to);
+    const moved = [...this.versions.keys()].filter(p => isUnder(p, source) && this.contentAt(p) !== null);
+    if (moved.length === 0) throw new Error(`TF10169: Unsupported pending change attempted on unknown item ${source}.`);
+    for (const item of moved) {
+      const dest = target + item.substring(source.length);
+      this.pending.set(dest, { action: "rename", source: item });
+    }
+    const fromLocal = this.toLocal(source);
+    const toLocal = this.toLocal(target);
+    if (fromLocal && toLocal && fs.existsSync(fromLocal)) {
+      fs.mkdirSync(path.dirname(toLocal), { recursive: true });
+      fs.renameSync(fromLocal, toLocal);
+    }
+    return `${path.basename(from)} → ${path.basename(to)}`;
+  }
+
+  private undo(items: string[], options: Map<string, string>): string {
+    const scope = items.length === 1 && items[0] === "." && options.has("recursive") ? this.serverPath : undefined;
+    const targets = scope
+      ? [...this.pending.keys()].filter(p => isUnder(p, scope))
+      : items.map(i => this.toServer(i)).filter(p => this.pending.has(p));
+    if (targets.length === 0) throw new Error("No pending changes were found for the specified items.");
+    for (const serverPath of targets) {
+      const pending = this.pending.get(serverPath)!;
+      this.pending.delete(serverPath);
+      const local = this.toLocal(serverPath);
+      if (!local) continue;
+      if (pending.action === "add") continue;
+      if (pending.action === "rename" && pending.source) {
+        const sourceLocal = this.toLocal(pending.source);
+        if (sourceLocal && fs.existsSync(local)) fs.renameSync(local, sourceLocal);
+        continue;
+      }
+      const content = this.contentAt(serverPath, this.synced.get(serverPath) ?? this.latest);
+      if (content === null) fs.rmSync(local, { force: true });
+      else writeFile(local, content);
+    }
+    return `Undoing ${targets.length} change(s)`;
+  }
+
+  private get(): string {
+    const lines: string[] = [];
+    for (const serverPath of this.versions.keys()) {
+      const local = this.toLocal(serverPath);
+      if (!local || this.pending.has(serverPath)) continue;
+      const versions = this.versions.get(serverPath)!;
+      if ((this.synced.get(serverPath) ?? 0) >= versions[versions.length - 1].changeset) continue;
+      const content = this.contentAt(serverPath);
+      if (content === null) {
+        if (fs.existsSync(local)) lines.push(`Deleting ${local}`);
+        fs.rmSync(local, { force: true });
+      } else {
+        lines.push(`Getting ${path.basename(local)}`);
+        writeFile(local, content);
+      }
+      this.synced.set(serverPath, this.latest);
+    }
+    return lines.length > 0 ? lines.join("\n") : "All files are up to date.";
+  }
+
+  private checkin(items: string[], options: Map<string, string>): string {
+    const all = items.length === 1 && items[0] === "." && options.has("recursive");
+    const targets = all ? [...this.pending.keys()] : items.map(i => this.toServer(i)).filter(p => this.pending.has(p));
+    if (targets.length === 0) throw new Error("There are no pending changes.");
+    if ([...this.conflicts.keys()].some(p => targets.includes(p))) {
+      throw new Error("TF10141: No files checked in: resolve the conflicts and try again.");
+    }
+    const id = this.latest + 1;
+    const changes: FakeChangeset["changes"] = [];
+    for (const serverPath of targets) {
+      const pending = this.pending.get(serverPath)!;
+      this.pending.delete(serverPath);
+      if (pending.action === "delete") {
+        this.addVersion(serverPath, id, null);
+      } else {
+        const local = this.toLocal(serverPath);
+        const content = local && fs.existsSync(local)
+          ? fs.readFileSync(local, "utf8")
+          : this.contentAt(pending.source ?? serverPath) ?? "";
+        this.addVersion(serverPath, id, content);
+        if (pending.action === "rename" && pending.source) this.addVersion(pending.source, id, null);
+        // A new branch is no merge candidate back into its parent
+        if (pending.action === "branch" && pending.source) this.merged.add(`${this.branchRootOf(pending.source)}<${id}`);
+      }
+      this.synced.set(serverPath, id);
+      changes.push({ serverPath, change: pending.action === "branch" ? "branch" : changeType(pending).toLowerCase().split(", ")[0] });
+    }
+    const workItems = (options.get("associate") || "").split(",").filter(Boolean).map(Number);
+    this.changesets.push({ id, owner: this.user, date: changesetDate(id), comment: options.get("comment") ?? "", changes, workItems });
+    return `Checking in ${changes.length} item(s)\nChangeset #${id} checked in.`;
+  }
+
+  // --- History and content ---
+
+  private history(items: string[], options: Map<string, string>): string {
+    const item = this.toServer(items[0] ?? this.serverPath);
+    const [from, to] = versionRange(options.get("version"), this.latest);
+    let found = this.changesets
+      .filter(cs => cs.id >= from && cs.id <= to && cs.changes.some(c => isUnder(c.serverPath, item)))
+      .reverse();
+    const stopAfter = Number(options.get("stopafter"));
+    if (stopAfter > 0) found = found.slice(0, stopAfter);
+
+    if (options.get("format") === "xml") {
+      return [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<history>`,
+        ...found.map(cs => [
+          `  <changeset id="${cs.id}" owner="FAKE\\${xml(cs.owner)}" ownerdisp="${xml(cs.owner)}" committer="FAKE\\${xml(cs.owner)}" date="${cs.date.toISOString()}">`,
+          `    <comment>${xml(cs.comment)}</comment>`,
+          ...cs.changes.map(c => `    <item change-type="${c.change}" server-item="${xml(c.serverPath)}"/>`),
+          ...cs.workItems.map(id => `    <workitem id="${id}" title="Work item ${id}"/>`),
+          `  </changeset>`
+        ].join("\n")),
+        `</history>`
+      ].join("\n");
+    }
+    if (found.length === 0) return "No history entries were found for the item and version combination specified.";
+    return found.map(cs => [
+      "-".repeat(79),
+      `Changeset: ${cs.id}`,
+      `User: ${cs.owner}`,
+      `Date: ${cs.date.toUTCString()}`,
+      "",
+      "Comment:",
+      `  ${cs.comment}`,
+      "",
+      "Items:",
+      ...cs.changes.map(c => `  ${c.change} ${c.serverPath}`)
+    ].join("\n")).join("\n");
+  }
+
+  private view(items: string[], options: Map<string, string>): string {
+    const shelveset = options.get("shelveset");
+    if (shelveset !== undefined) {
+      const serverPath = this.toServer(items[0]);
+      const change = this.findShelveset(shelveset).changes.find(c => c.serverPath === serverPath);
+      if (!change || change.content === null) throw new Error(`The item ${serverPath} is not in shelveset ${shelveset}.`);
+      return change.content;
+    }
+    const [item, spec = "T"] = items[0].split(";");
+    const serverPath = this.toServer(item);
+    const changeset = /^W$/i.test(spec) ? this.synced.get(serverPath) ?? this.latest
+      : /^T$/i.test(spec) ? this.latest
+      : Number(spec.replace(/^C/i, ""));
+    const content = this.contentAt(serverPath, changeset);
+    if (content === null) throw new Error(`The item ${serverPath} does not exist at the specified version.`);
+    const output = options.get("output");
+    if (output === undefined) return content;
+    fs.writeFileSync(output, content);
+    return "";
+  }
+
+  private changeset(id: number): string {
+    const cs = this.changesets.find(c => c.id === id);
+    if (!cs) throw new Error(`Changeset ${id} does not exist.`);
+    return [
+      `Changeset: ${cs.id}`,
+      `User: ${cs.owner}`,
+      `Date: ${cs.date.toUTCString()}`,
+      "",
+      "Comment:",
+      `  ${cs.comment}`,
+      "",
+      "Items:",
+      ...cs.changes.map(c => `  ${c.change} ${c.serverPath}`),
+      "",
+      "Work Items:",
+      "  ID   Type  State  Assigned To  Title",
+      "  ---- ----- ------ ------------ -----",
+      ...cs.workItems.map(w => `  ${w}  Task  Active  ${this.user}  Work item ${w}`)
+    ].join("\n");
+  }
+
+  // --- Branches and merges ---
+
+  private branches(format?: string): string {
+    if (format === "xml") {
+      return [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<branches>`,
+        ...this.branchRoots.map(b => `  <branch serverItem="${xml(b)}"/>`),
+        `</branches>`
+      ].join("\n");
+    }
+    return this.branchRoots.join("\n");
+  }
+
+  private branch(from: string, to: string): string {
+    const source = this.toServer(from);
+    const target = this.toServer(to);
+    const items = [...this.versions.keys()].filter(p => isUnder(p, source) && this.contentAt(p) !== null);
+    if (items.length === 0) throw new Error(`No items match ${source}.`);
+    for (const item of items) {
+      const dest = target + item.substring(source.length);
+      this.pending.set(dest, { action: "branch", source: item });
+      const local = this.toLocal(dest);
+      if (local) writeFile(local, this.contentAt(item)!);
+    }
+    this.addBranchRoot(target);
+    return items.map(i => path.posix.basename(i)).join("\n");
+  }
+
+  private branchRootOf(serverPath: string): string {
+    return this.branchRoots.filter(b => isUnder(serverPath, b)).sort((a, b) => b.length - a.length)[0] ?? serverPath;
+  }
+
+  private mergeCandidates(source: string, target: string): FakeChangeset[] {
+    return this.changesets.filter(cs =>
+      !this.merged.has(`${target}<${cs.id}`) && cs.changes.some(c => isUnder(c.serverPath, source)));
+  }
+
+  private merge(items: string[], options: Map<string, string>): string {
+    const source = this.toServer(items[0]);
+    const target = this.toServer(items[1]);
+    const candidates = this.mergeCandidates(source, target);
+    if (options.has("candidate")) {
+      if (candidates.length === 0) return "There are no changes to merge.";
+      return [
+        "Changeset Author                           Date",
+        "--------- -------------------------------- ----------",
+        ...candidates.map(cs => `${String(cs.id).padEnd(9)} ${cs.owner.padEnd(32)} ${cs.date.toLocaleDateString("en-US")}`)
+      ].join("\n");
+    }
+
+    const [from, to] = versionRange(options.get("version"), this.latest);
+    const merging = candidates.filter(cs => cs.id >= from && cs.id <= to);
+    if (merging.length === 0) throw new Error("There are no changes to merge.");
+    const lines: string[] = [];
+    let conflicts = 0;
+    for (const cs of merging) {
+      for (const change of cs.changes.filter(c => isUnder(c.serverPath, source))) {
+        const dest = target + change.serverPath.substring(source.length);
+        const local = this.toLocal(dest);
+        const content = this.contentAt(change.serverPath, cs.id);
+        const existing = this.pending.get(dest);
+        if (existing && existing.action !== "merge") {
+          this.conflicts.set(dest, `The source and target both have changes (merge ${source})`);
+          conflicts++;
+          continue;
+        }
+        const isNew = this.contentAt(dest) === null;
+        this.pending.set(dest, content === null
+          ? { action: "delete", source: change.serverPath }
+          : { action: "merge", source: change.serverPath, newItem: isNew });
+        if (local) {
+          if (content === null) fs.rmSync(local, { force: true });
+          else writeFile(local, content);
+        }
+        lines.push(`merge, ${change.change}: ${change.serverPath};C${cs.id} → ${dest}`);
+      }
+      this.merged.add(`${target}<${cs.id}`);
+    }
+    if (conflicts > 0) throw new Error(`${lines.join("\n")}\nThere were ${conflicts} conflict(s).`);
+    return lines.join("\n");
+  }
+
+  private resolve(items: string[], options: Map<string, string>): string {
+    if (options.has("preview")) {
+      if (this.conflicts.size === 0) throw new Error("There are no conflicts to resolve.");
+      return [...this.conflicts].map(([serverPath, description]) => `${this.toLocal(serverPath) ?? serverPath}: ${description}`).join("\n");
+    }
+    const resolution = options.get("auto");
+    const targets = items.length === 1 && items[0] === "." ? [...this.conflicts.keys()] : items.map(i => this.toServer(i));
+    for (const serverPath of targets) {
+      if (!this.conflicts.delete(serverPath)) continue;
+      const local = this.toLocal(serverPath);
+      if (resolution === "TakeTheirs" && local) {
+        const source = this.pending.get(serverPath)?.source ?? serverPath;
+        writeFile(local, this.contentAt(source) ?? "");
+      }
+    }
+    return `Resolved ${targets.length} conflict(s) as ${resolution}`;
+  }
+
+  private rollback(options: Map<string, string>): string {
+    const id = Number((options.get("changeset") || "").replace(/^C/i, ""));
+    if (!this.changesets.some(cs => cs.id === id)) throw new Error(`Changeset ${id} does not exist.`);
+    const changed = new Set(this.changesets.filter(cs => cs.id > id).flatMap(cs => cs.changes.map(c => c.serverPath)));
+    for (const serverPath of changed) {
+      const content = this.contentAt(serverPath, id);
+      const local = this.toLocal(serverPath);
+      this.pending.set(serverPath, { action: content === null ? "delete" : "edit" });
+      if (local) {
+        if (content === null) fs.rmSync(local, { force: true });
+        else writeFile(local, content);
+      }
+    }
+    return `Rolled back ${changed.size} item(s)`;
+  }
+
+  // --- Shelvesets ---
+
+  private shelve(items: string[], options: Map<string, string>): string {
+    if (options.has("delete")) {
+      const set = this.findShelveset(items[0]);
+      this.shelvesets = this.shelvesets.filter(s => s !== set);
+      return `Deleted shelveset ${set.name}`;
+    }
+    const [name, ...files] = items;
+    const all = files.length === 1 && files[0] === ".";
+    const targets = all ? [...this.pending.keys()] : files.map(f => this.toServer(f)).filter(p => this.pending.has(p));
+    if (targets.length === 0) throw new Error("There are no pending changes to shelve.");
+    if (this.shelvesets.some(s => s.name === name) && !options.has("replace")) {
+      throw new Error(`A shelveset named ${name} already exists.`);
+    }
+    this.shelvesets = this.shelvesets.filter(s => s.name !== name);
+    this.shelvesets.push({
+      name,
+      owner: this.user,
+      comment: options.get("comment") ?? "",
+      date: changesetDate(this.latest),
+      changes: targets.map(serverPath => {
+        const local = this.toLocal(serverPath);
+        const pending = this.pending.get(serverPath)!;
+        const content = pending.action === "delete" ? null : local && fs.existsSync(local) ? fs.readFileSync(local, "utf8") : null;
+        return { serverPath, pending, content };
+      })
+    });
+    if (options.has("move")) this.undo(targets, new Map());
+    return `Shelveset ${name} created.`;
+  }
+
+  private unshelve(spec: string): string {
+    const set = this.findShelveset(spec);
+    for (const change of set.changes) {
+      this.pending.set(change.serverPath, change.pending);
+      const local = this.toLocal(change.serverPath);
+      if (!local) continue;
+      if (change.content === null) fs.rmSync(local, { force: true });
+      else writeFile(local, change.content);
+    }
+    return `Unshelving ${set.changes.length} change(s)`;
+  }
+
+  private listShelvesets(options: Map<string, string>): string {
+    const owner = options.get("owner");
+    const sets = this.shelvesets.filter(s => owner === "*" || s.owner === (owner || this.user));
+    if (sets.length === 0) return "No shelvesets found.";
+    return sets.map(s => [
+      `Shelveset: ${s.name}`,
+      `Owner    : ${s.owner}`,
+      `Date     : ${s.date.toUTCString()}`,
+      `Comment  :`,
+      `  ${s.comment}`,
+      ""
+    ].join("\n")).join("\n");
+  }
+
+  private findShelveset(spec: string): FakeShelveset {
+    const [name] = spec.split(";");
+    const set = this.shelvesets.find(s => s.name === name);
+    if (!set) throw new Error(`Shelveset ${spec} could not be found.`);
+    return set;
+  }
+
+  // --- Workspaces ---
+
+  private workfold(items: string[], options: Map<string, string>): string {
+    const name = options.get("workspace") ?? "fakews";
+    const ws = this.workspaces.find(w => w.name === name);
+    if (options.has("map") || options.has("unmap") || options.has("cloak") || options.has("decloak")) {
+      if (!ws) throw new Error(`The workspace ${name} could not be found.`);
+      if (options.has("map")) ws.mappings.push({ serverPath: items[0], localPath: items[1] });
+      if (options.has("unmap")) ws.mappings = ws.mappings.filter(m => m.localPath !== items[0]);
+      if (options.has("cloak")) ws.mappings.push({ serverPath: items[0] });
+      if (options.has("decloak")) ws.mappings = ws.mappings.filter(m => !(m.serverPath === items[0] && !m.localPath));
+      return "";
+    }
+    const target = items[0] ?? this.root;
+    const mapped = this.workspaces.find(w => w.mappings.some(m => m.localPath && isUnder(target, m.localPath)));
+    if (!mapped) throw new Error(`There is no working folder mapping for ${target}.`);
+    return [
+      "=".repeat(79),
+      `Workspace : ${mapped.name} (${this.user})`,
+      "Collection: https://tfs.example.test/DefaultCollection",
+      ...mapped.mappings.map(m => m.localPath ? ` ${m.serverPath}: ${m.localPath}` : ` (cloaked) ${m.serverPath}:`)
+    ].join("\n");
+  }
+
+  private listWorkspaces(): string {
+    return this.workspaces.map(w => [
+      "=".repeat(79),
+      `Workspace : ${w.name}`,
+      `Owner     : ${this.user}`,
+      "Computer  : FAKE",
+      "Comment   :",
+      "Collection: https://tfs.example.test/DefaultCollection",
+      `Location  : ${w.location}`,
+      "",
+      "Working folders:",
+      "",
+      ...w.mappings.map(m => m.localPath ? ` ${m.serverPath}: ${m.localPath}` : ` (cloaked) ${m.serverPath}:`)
+    ].join("\n")).join("\n");
+  }
+
+  private workspace(items: string[], options: Map<string, string>): string {
+    if (options.has("new")) {
+      if (this.workspaces.some(w => w.name === items[0])) throw new Error(`The workspace ${items[0]} already exists.`);
+      this.workspaces.push({ name: items[0], location: options.get("location") ?? "local", mappings: [] });
+      return `Workspace ${items[0]} created.`;
+    }
+    const name = options.has("delete") ? items[0] ?? options.get("delete") : items[0];
+    const ws = this.workspaces.find(w => w.name === name);
+    if (!ws) throw new Error(`The workspace ${name} could not be found.`);
+    if (options.has("delete")) {
+      this.workspaces.splice(this.workspaces.indexOf(ws), 1);
+      return `Workspace ${name} deleted.`;
+    }
+    if (options.has("location")) ws.location = options.get("location")!;
+    return `Workspace ${name} updated.`;
+  }
+
+  // --- Paths ---
+
+  private toServer(item: string): string {
+    if (item.startsWith("$/")) return item.replace(/\/$/, "");
+    if (!path.isAbsolute(item)) return `${this.serverPath}/${item.replace(/\\/g, "/")}`.replace(/\/\.?$/, "");
+    const rel = path.relative(this.root, item);
+    if (rel.startsWith("..")) throw new Error(`${item} is not in a mapped folder.`);
+    return rel ? `${this.serverPath}/${rel.split(path.sep).join("/")}` : this.serverPath;
+  }
+
+  private toLocal(serverPath: string): string | undefined {
+    if (!isUnder(serverPath, this.serverPath)) return undefined;
+    return path.join(this.root, ...serverPath.substring(this.serverPath.length).split("/").filter(Boolean));
+  }
+
+  private addVersion(serverPath: string, changeset: number, content: string | null) {
+    const versions = this.versions.get(serverPath) ?? [];
+    versions.push({ changeset, content });
+    this.versions.set(serverPath, versions);
+  }
+}
+
+function parseArgs(args: string[]): { command: string; items: string[]; options: Map<string, string> } {
+  const [command, ...rest] = args;
+  const items: string[] = [];
+  const options = new Map<string, string>();
+  for (const arg of rest) {
+    const m = arg.match(OPTION);
+    if (m && OPTIONS.has(m[1].toLowerCase())) options.set(m[1].toLowerCase(), m[2] ?? "");
+    else items.push(arg);
+  }
+  return { command, items, options };
+}
+
+function versionRange(spec: string | undefined, latest: number): [number, number] {
+  if (!spec) return [1, latest];
+  const [from, to = from] = spec.split("~").map(v => Number(v.replace(/^C/i, "")));
+  return [from, to];
+}
+
+function changeType(pending: FakePending): string {
+  switch (pending.action) {
+    case "merge": return pending.newItem ? "Merge, Branch" : "Merge, Edit";
+    default: return pending.action.charAt(0).toUpperCase() + pending.action.substring(1);
+  }
+}
+
+function isUnder(item: string, folder: string): boolean {
+  const a = item.toLowerCase();
+  const b = folder.toLowerCase().replace(/[\\/]$/, "");
+  return a === b || a.startsWith(`${b}/`) || a.startsWith(`${b}${path.sep}`);
+}
+
+function changesetDate(id: number): Date {
+  return new Date(Date.UTC(2024, 0, 1, 9, 0, 0) + id * 3_600_000);
+}
+
+function writeFile(file: string, content: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+function xml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    }, { once: true });
+  });
+}
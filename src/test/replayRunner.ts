@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CommandResult, CommandRunner, RunOptions } from "../runner";
+
+// Compiled tests run from out/src/test; the recordings stay next to the sources
+export const FIXTURES = path.join(__dirname, "..", "..", "..", "src", "test", "fixtures");
+
+export function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name), "utf8");
+}
+
+interface Reply {
+  // Matched against the command line: the arguments joined with spaces
+  pattern: RegExp;
+  // Output of the command, or throws its failure
+  reply: () => CommandResult;
+}
+
+// Answers tf commands with recorded client output. Each reply applies to the command lines
+// matching its pattern (the arguments joined with spaces); the first matching reply wins.
+export class ReplayRunner implements CommandRunner {
+  readonly calls: string[][] = [];
+  private replies: Reply[] = [];
+
+  // Prints the recording as stdout
+  reply(pattern: RegExp, fixtureName: string): this {
+    this.replies.push({ pattern, reply: () => ({ stdout: fixture(fixtureName), stderr: "" }) });
+    return this;
+  }
+
+  // Exits non-zero with the message on stderr, as the client does for errors
+  fail(pattern: RegExp, message: string): this {
+    this.replies.push({
+      pattern,
+      reply: () => { throw Object.assign(new Error(message), { code: 1, stdout: "", stderr: message }); }
+    });
+    return this;
+  }
+
+  async run(_file: string, args: string[], _options: RunOptions): Promise<CommandResult> {
+    this.calls.push(args);
+    const line = args.join(" ");
+    const match = this.replies.find(r => r.pattern.test(line));
+    if (!match) throw new Error(`No recorded output for tf ${line}`);
+    return match.reply();
+  }
+
+  // Calls whose command line matches
+  ran(pattern: RegExp): string[][] {
+    return this.calls.filter(args => pattern.test(args.join(" ")));
+  }
+}
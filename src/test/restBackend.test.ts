@@ -0,0 +1,146 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as vscode from "vscode";
+import { VstfsConfig } from "../config";
+import { RestBackend, request } from "../restBackend";
+import { withCancellation } from "../runner";
+import { TFVC } from "../tfvc";
+
+// The REST backend against a local HTTP server standing in for Azure DevOps
+suite("REST backend", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  // Requests the server received, path and query
+  const received: string[] = [];
+  // Responses to anything mentioning "slow" never come: the client has to give up on them
+  const hanging: http.ServerResponse[] = [];
+
+  suiteSetup(async () => {
+    server = http.createServer((req, res) => {
+      received.push(req.url || "");
+      const url = new URL(req.url || "/", "http://localhost");
+      if ((req.url || "").includes("slow")) {
+        hanging.push(res);
+        return;
+      }
+      if (url.pathname.endsWith("/_apis/tfvc/items")) {
+        const item = url.searchParams.get("path") || "";
+        const text = `${item} at C${url.searchParams.get("versionDescriptor.version")}`;
+        res.writeHead(200, { "Content-Type": "application/octet-stream" });
+        res.end(item.endsWith(".utf16.txt") ? Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")]) : text);
+        return;
+      }
+      const json = (body: unknown) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+      if (url.pathname.endsWith("/_apis/tfvc/changesets") && url.searchParams.get("searchCriteria.itemPath") === "$/Proj/Main/new.ts") {
+        json({ value: [3, 2, 1].map(id => ({ changesetId: id, author: { displayName: "Jane Doe" }, createdDate: "2024-03-05T13:22:10Z" })) });
+        return;
+      }
+      const changes = url.pathname.match(/\/_apis\/tfvc\/changesets\/(\d+)\/changes$/);
+      if (changes && CHANGES[changes[1]]) {
+        json({ value: CHANGES[changes[1]] });
+        return;
+      }
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: "Not found" }));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  suiteTeardown(async () => {
+    hanging.forEach(res => res.destroy());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  setup(() => {
+    received.length = 0;
+  });
+
+  // new.ts was added as old.ts in C1 and renamed in C2
+  const CHANGES: Record<string, unknown[]> = {
+    "3": [
+      { changeType: "edit", item: { path: "$/Proj/Main/new.ts" } },
+      { changeType: "edit", item: { path: "$/Proj/Main/other.ts" } }
+    ],
+    "2": [{ changeType: "rename", item: { path: "$/Proj/Main/new.ts" }, sourceServerItem: "$/Proj/Main/old.ts" }],
+    "1": [{ changeType: "add", item: { path: "$/Proj/Main/old.ts" } }]
+  };
+
+  const backend = () => {
+    const config: VstfsConfig = {
+      serverUrl: `${baseUrl}/tfs/DefaultCollection`,
+      project: "Proj",
+      workspace: "jdoe-dev",
+      tfPath: "TF.exe",
+      root: "C:\\ws\\Main",
+      serverPath: "$/Proj/Main",
+      authType: "pat",
+      auth: { type: "pat", token: "secret" },
+      autoPromote: false,
+      backend: "rest"
+    };
+    const output = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+    const tfvc = new TFVC("TF.exe", "C:\\ws\\Main", process.env, config, undefined, {
+      run: async () => { throw new Error("TF.exe is not used for REST reads"); }
+    });
+    return new RestBackend(config, tfvc, output, async () => "secret");
+  };
+
+  test("File versions come from the items endpoint", async () => {
+    const content = await backend().getFileAtChangeset("$/Proj/Main/app.ts", 42);
+
+    assert.strictEqual(content, "$/Proj/Main/app.ts at C42");
+    assert.ok(received[0].startsWith("/tfs/DefaultCollection/Proj/_apis/tfvc/items?"));
+    assert.ok(received[0].includes("%24format=octetStream"));
+  });
+
+  test("File versions are read as bytes and decoded by their byte order mark", async () => {
+    const content = await backend().getFileAtChangeset("$/Proj/Main/notes.utf16.txt", 7);
+
+    assert.strictEqual(content, "$/Proj/Main/notes.utf16.txt at C7");
+  });
+
+  test("History of an item lists its changes and follows renames", async () => {
+    const history = await backend().history("$/Proj/Main/new.ts");
+
+    assert.deepStrictEqual(history.map(h => ({ id: h.changesetId, files: h.files })), [
+      { id: 3, files: [{ path: "$/Proj/Main/new.ts", change: "edit" }] },
+      { id: 2, files: [{ path: "$/Proj/Main/new.ts", change: "rename" }] },
+      { id: 1, files: [{ path: "$/Proj/Main/old.ts", change: "add" }] }
+    ]);
+  });
+
+  test("Server errors carry the status and message", async () => {
+    await assert.rejects(backend().history("$/Proj/Gone"), (e: any) => e.status === 404 && /Not found/.test(e.message));
+  });
+
+  test("A request that gets no answer times out", async () => {
+    const started = Date.now();
+
+    await assert.rejects(
+      request(new URL(`${baseUrl}/slow`), {}, { timeoutMs: 200 }),
+      (e: any) => e.timedOut === true && /timed out/.test(e.message)
+    );
+    assert.ok(Date.now() - started < 5000);
+  });
+
+  test("Cancelling the user action aborts the request", async () => {
+    const controller = new AbortController();
+    const pending = withCancellation(controller.signal, () => backend().history("$/Proj/slow"));
+    setTimeout(() => controller.abort(), 100);
+
+    await assert.rejects(pending, (e: any) => e.cancelled === true);
+  });
+
+  test("An aborted signal stops the request before it is sent", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(request(new URL(`${baseUrl}/slow`), {}, { signal: controller.signal }), (e: any) => e.cancelled === true);
+    assert.strictEqual(received.length, 0);
+  });
+});
@@ -0,0 +1,155 @@
+import * as assert from "assert";
+import { activeSignal, CommandQueue, execFileRunner, isCancelled, withCancellation, withoutCancellation } from "../runner";
+
+// "opened" resolves once open() is called; holds an operation in the queue until then
+function gate() {
+  let open!: () => void;
+  const opened = new Promise<void>(resolve => open = resolve);
+  return { open, opened };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+suite("CommandQueue", () => {
+  test("Reads run side by side", async () => {
+    const queue = new CommandQueue();
+    const first = gate();
+    const started: string[] = [];
+
+    const a = queue.run(false, async () => { started.push("a"); await first.opened; });
+    const b = queue.run(false, async () => { started.push("b"); });
+    await b;
+
+    assert.deepStrictEqual(started, ["a", "b"]);
+    first.open();
+    await a;
+  });
+
+  test("A write waits for running reads and runs alone", async () => {
+    const queue = new CommandQueue();
+    const read = gate();
+    const write = gate();
+    const log: string[] = [];
+
+    const r1 = queue.run(false, async () => { log.push("read 1"); await read.opened; log.push("read 1 done"); });
+    const w = queue.run(true, async () => { log.push("write"); await write.opened; log.push("write done"); });
+    const r2 = queue.run(false, async () => { log.push("read 2"); });
+    await tick();
+    assert.deepStrictEqual(log, ["read 1"]);
+
+    read.open();
+    await tick();
+    assert.deepStrictEqual(log, ["read 1", "read 1 done", "write"]);
+
+    write.open();
+    await Promise.all([r1, w, r2]);
+    assert.deepStrictEqual(log, ["read 1", "read 1 done", "write", "write done", "read 2"]);
+  });
+
+  test("Operations start in arrival order, so later reads can't hold a write back", async () => {
+    const queue = new CommandQueue();
+    const read = gate();
+    const order: string[] = [];
+
+    const r1 = queue.run(false, async () => { await read.opened; order.push("read 1"); });
+    const w = queue.run(true, async () => { order.push("write"); });
+    const r2 = queue.run(false, async () => { order.push("read 2"); });
+    read.open();
+    await Promise.all([r1, w, r2]);
+
+    assert.deepStrictEqual(order, ["read 1", "write", "read 2"]);
+  });
+
+  test("A failing operation releases the queue", async () => {
+    const queue = new CommandQueue();
+
+    await assert.rejects(queue.run(true, async () => { throw new Error("TF14045: boom"); }), /TF14045/);
+    assert.strictEqual(await queue.run(true, async () => "next"), "next");
+  });
+
+  test("Cancelling a queued operation removes it without running it", async () => {
+    const queue = new CommandQueue();
+    const write = gate();
+    const abort = new AbortController();
+    let ran = false;
+
+    const w = queue.run(true, () => write.opened);
+    const queued = queue.run(false, async () => { ran = true; }, abort.signal);
+    const after = queue.run(false, async () => "after");
+    abort.abort();
+
+    await assert.rejects(queued, (e: any) => isCancelled(e));
+    write.open();
+    await w;
+    assert.strictEqual(await after, "after");
+    assert.strictEqual(ran, false);
+  });
+
+  test("An already aborted signal never queues", async () => {
+    const queue = new CommandQueue();
+    const abort = new AbortController();
+    abort.abort();
+
+    await assert.rejects(queue.run(false, async () => undefined, abort.signal), (e: any) => isCancelled(e));
+  });
+});
+
+suite("Cancellation scope", () => {
+  test("Work below withCancellation sees the signal, across awaits", async () => {
+    const abort = new AbortController();
+
+    const seen = await withCancellation(abort.signal, async () => {
+      await tick();
+      return activeSignal();
+    });
+
+    assert.strictEqual(seen, abort.signal);
+    assert.strictEqual(activeSignal(), undefined);
+  });
+
+  test("Background work started with withoutCancellation doesn't inherit it", async () => {
+    const abort = new AbortController();
+    let background: Promise<AbortSignal | undefined> | undefined;
+
+    await withCancellation(abort.signal, async () => {
+      background = withoutCancellation(async () => {
+        await tick();
+        return activeSignal();
+      });
+    });
+
+    assert.strictEqual(await background, undefined);
+  });
+});
+
+suite("execFileRunner", () => {
+  // A client that hangs: node waiting far longer than any test
+  const hang = ["-e", "setTimeout(() => {}, 60000)"];
+  // Inside VS Code, execPath is Electron; this makes it behave as plain node
+  const options = { cwd: process.cwd(), env: { ...process.env, ELECTRON_RUN_AS_NODE: "1" } };
+
+  test("Output and failures of the process", async () => {
+    const ok = await execFileRunner.run(process.execPath, ["-e", "process.stdout.write('done')"], options);
+    assert.strictEqual(ok.stdout, "done");
+
+    await assert.rejects(
+      execFileRunner.run(process.execPath, ["-e", "process.stderr.write('TF30063: denied'); process.exit(100)"], options),
+      (e: any) => e.message === "TF30063: denied" && e.code === 100
+    );
+  });
+
+  test("A process that runs past its timeout is stopped", async () => {
+    await assert.rejects(
+      execFileRunner.run(process.execPath, hang, { ...options, timeoutMs: 300 }),
+      (e: any) => e.timedOut === true && /timed out after/.test(e.message)
+    );
+  });
+
+  test("Aborting the signal stops the process", async () => {
+    const abort = new AbortController();
+    const running = execFileRunner.run(process.execPath, hang, { ...options, signal: abort.signal });
+    setTimeout(() => abort.abort(), 200);
+
+    await assert.rejects(running, (e: any) => isCancelled(e));
+  });
+});
@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+
+// Quick pick items as the extension passes them: labels or QuickPickItems
+type PickItem = string | vscode.QuickPickItem;
+// The picked item(s), the typed text or the clicked button; undefined dismisses the prompt
+type Answer = (items: readonly PickItem[], prompt: string) => PickItem | readonly PickItem[] | undefined;
+
+interface ScriptedAnswer {
+  kind: "quickPick" | "input" | "confirm";
+  answer: Answer;
+}
+
+// Answers the extension's prompts from a script, so commands can run without anyone clicking.
+// Quick picks, input boxes and modal confirmations take the next scripted answer in order
+// (failing the test when none is left); information and error messages are collected.
+export class ScriptedUi implements vscode.Disposable {
+  readonly infos: string[] = [];
+  readonly errors: string[] = [];
+  private answers: ScriptedAnswer[] = [];
+  private restore: (() => void)[] = [];
+
+  constructor() {
+    const window = vscode.window as unknown as Record<string, unknown>;
+    const stub = (name: keyof typeof vscode.window, fn: (...args: never[]) => unknown) => {
+      const original = window[name];
+      window[name] = fn;
+      this.restore.push(() => window[name] = original);
+    };
+
+    stub("showQuickPick", async (items: readonly PickItem[] | Thenable<readonly PickItem[]>, options?: vscode.QuickPickOptions) =>
+      this.next("quickPick", await items, options?.title || options?.placeHolder || ""));
+    stub("showInputBox", async (options?: vscode.InputBoxOptions) =>
+      this.next("input", [], options?.prompt || options?.title || ""));
+    stub("showWarningMessage", async (message: string, options?: string | vscode.MessageOptions) => {
+      if (typeof options === "object" && options.modal) return this.next("confirm", [], message);
+      return undefined;
+    });
+    stub("showInformationMessage", async (message: string) => {
+      this.infos.push(message);
+      return undefined;
+    });
+    stub("showErrorMessage", async (message: string) => {
+      this.errors.push(message);
+      return undefined;
+    });
+    // Work items are picked from a custom quick pick; it accepts what's preselected
+    stub("createQuickPick", () => acceptingQuickPick());
+  }
+
+  // Picks items of the next quick pick; a label picks that item, a function chooses from all items
+  pick(choice: string | ((items: readonly PickItem[]) => PickItem | readonly PickItem[] | undefined)): this {
+    const answer: Answer = typeof choice === "function" ? choice : items => {
+      const found = items.find(i => label(i) === choice);
+      if (!found) throw new Error(`No quick pick item "${choice}" in ${JSON.stringify(items.map(label))}`);
+      return found;
+    };
+    this.answers.push({ kind: "quickPick", answer });
+    return this;
+  }
+
+  // Checked items of the next multi-select quick pick
+  pickAll(): this {
+    return this.pick(items => items.filter(i => typeof i === "string" || i.picked !== false));
+  }
+
+  input(value: string | undefined): this {
+    this.answers.push({ kind: "input", answer: () => value });
+    return this;
+  }
+
+  // Button of the next modal confirmation; undefined cancels it
+  confirm(button: string | undefined): this {
+    this.answers.push({ kind: "confirm", answer: () => button });
+    return this;
+  }
+
+  // Fails when scripted answers were left over, i.e. the command asked less than expected
+  assertDone() {
+    if (this.answers.length > 0) {
+      throw new Error(`Unused answers: ${this.answers.map(a => a.kind).join(", ")}`);
+    }
+  }
+
+  private next(kind: ScriptedAnswer["kind"], items: readonly PickItem[], prompt: string) {
+    const answer = this.answers.shift();
+    if (!answer || answer.kind !== kind) {
+      throw new Error(`Unexpected ${kind} "${prompt}"${answer ? ` (next answer is a ${answer.kind})` : ""}`);
+    }
+    return answer.answer(items, prompt);
+  }
+
+  dispose() {
+    this.restore.reverse().forEach(restore => restore());
+  }
+}
+
+function label(item: PickItem): string {
+  return typeof item === "string" ? item : item.label;
+}
+
+function acceptingQuickPick(): vscode.QuickPick<vscode.QuickPickItem> {
+  const accept = new vscode.EventEmitter<void>();
+  const hide = new vscode.EventEmitter<void>();
+  const value = new vscode.EventEmitter<string>();
+  const qp: Partial<vscode.QuickPick<vscode.QuickPickItem>> = {
+    items: [],
+    selectedItems: [],
+    onDidAccept: accept.event,
+    onDidHide: hide.event,
+    onDidChangeValue: value.event,
+    show: () => setTimeout(() => accept.fire(), 0),
+    hide: () => hide.fire(),
+    dispose: () => [accept, hide, value].forEach(e => e.dispose())
+  };
+  return qp as vscode.QuickPick<vscode.QuickPickItem>;
+}
@@ -0,0 +1,119 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { matchRules, parseTfIgnore, TfIgnore } from "../tfignore";
+
+suite(".tfignore", () => {
+  const ignored = (content: string, relPath: string) => matchRules(parseTfIgnore(content), relPath).ignored;
+
+  test("Parsing skips comments and blank lines and keeps line numbers", () => {
+    const rules = parseTfIgnore("# build output\r\n\r\nbin\r\n!\\bin\\keep.dll\r\n  obj/  \r\n", "C:\\ws\\.tfignore");
+
+    assert.deepStrictEqual(
+      rules.map(r => ({ text: r.text, line: r.line, negate: r.negate, anchored: r.anchored, segments: r.segments.length })),
+      [
+        { text: "bin", line: 3, negate: false, anchored: false, segments: 1 },
+        { text: "!\\bin\\keep.dll", line: 4, negate: true, anchored: true, segments: 2 },
+        { text: "obj/", line: 5, negate: false, anchored: false, segments: 1 }
+      ]
+    );
+    assert.ok(rules.every(r => r.source === "C:\\ws\\.tfignore"));
+  });
+
+  test("Wildcards stay within one segment and ignore case", () => {
+    assert.ok(ignored("*.user", "src/App.csproj.USER"));
+    assert.ok(ignored("log?.txt", "log1.txt"));
+    assert.ok(!ignored("log?.txt", "log12.txt"));
+    assert.ok(!ignored("src*", "other/file.cs"));
+  });
+
+  test("Unanchored rules match at any depth, anchored ones only in their folder", () => {
+    assert.ok(ignored("*.cpp", "a/b/x.cpp"));
+    assert.ok(ignored("\\*.cpp", "x.cpp"));
+    assert.ok(!ignored("\\*.cpp", "a/x.cpp"));
+  });
+
+  test("A rule matching a folder ignores everything inside it", () => {
+    assert.ok(ignored("bin", "src/bin/Debug/app.dll"));
+    assert.ok(ignored("\\bin", "bin/app.dll"));
+    assert.ok(!ignored("\\bin", "src/bin/app.dll"));
+  });
+
+  test("A rule with a folder part matches anywhere in that folder's subtree", () => {
+    assert.ok(ignored("ProjA\\*.cpp", "ProjA/x.cpp"));
+    assert.ok(ignored("ProjA\\*.cpp", "ProjA/sub/x.cpp"));
+    assert.ok(ignored("ProjA\\*.cpp", "src/ProjA/sub/deeper/x.cpp"));
+    assert.ok(ignored("ProjA/obj", "ProjA/lib/obj/x.o"));
+    assert.ok(!ignored("ProjA\\*.cpp", "ProjB/sub/x.cpp"));
+    assert.ok(!ignored("ProjA\\*.cpp", "ProjA/x.h"));
+
+    assert.ok(ignored("\\ProjA\\*.cpp", "ProjA/x.cpp"));
+    assert.ok(!ignored("\\ProjA\\*.cpp", "ProjA/sub/x.cpp"));
+    assert.ok(!ignored("\\ProjA\\*.cpp", "src/ProjA/x.cpp"));
+  });
+
+  test("The last matching rule wins, and \"!\" re-includes", () => {
+    const rules = parseTfIgnore("*.dll\n!keep.dll\n");
+
+    assert.strictEqual(matchRules(rules, "bin/other.dll").ignored, true);
+    const kept = matchRules(rules, "bin/keep.dll");
+    assert.strictEqual(kept.ignored, false);
+    assert.strictEqual(kept.rule?.text, "!keep.dll");
+    assert.strictEqual(matchRules(parseTfIgnore("!keep.dll\n*.dll\n"), "bin/keep.dll").ignored, true);
+  });
+
+  suite("Files in a workspace", () => {
+    let root: string;
+
+    setup(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), "vstfs-tfignore-"));
+    });
+
+    teardown(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    const write = (rel: string, content: string) => {
+      const file = path.join(root, ...rel.split("/"));
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, content);
+    };
+
+    test("Deeper .tfignore files override shallower ones and apply relative to their folder", () => {
+      write(".tfignore", "*.log\n");
+      write("tools/.tfignore", "!\\build.log\n\\out\n");
+      const ignore = new TfIgnore(root);
+
+      assert.ok(ignore.isIgnored(path.join(root, "src", "trace.log")));
+      assert.ok(!ignore.isIgnored(path.join(root, "tools", "build.log")));
+      assert.ok(ignore.isIgnored(path.join(root, "tools", "sub", "build.log")));
+      assert.ok(ignore.isIgnored(path.join(root, "tools", "out", "a.exe")));
+      assert.ok(!ignore.isIgnored(path.join(root, "out", "a.exe")));
+
+      const why = ignore.explain(path.join(root, "src", "trace.log"));
+      assert.strictEqual(why.rule?.source, path.join(root, ".tfignore"));
+      assert.strictEqual(why.rule?.line, 1);
+    });
+
+    test("Items outside the root are never ignored", () => {
+      write(".tfignore", "*\n");
+
+      assert.ok(!new TfIgnore(root).isIgnored(path.join(os.tmpdir(), "elsewhere.txt")));
+    });
+
+    test("A changed .tfignore is read again", () => {
+      write(".tfignore", "*.tmp\n");
+      const ignore = new TfIgnore(root);
+      assert.ok(ignore.isIgnored(path.join(root, "a.tmp")));
+
+      write(".tfignore", "*.bak\n");
+      // mtime resolution may be coarse; make the change visible
+      const later = new Date(Date.now() + 5000);
+      fs.utimesSync(path.join(root, ".tfignore"), later, later);
+
+      assert.ok(!ignore.isIgnored(path.join(root, "a.tmp")));
+      assert.ok(ignore.isIgnored(path.join(root, "a.bak")));
+    });
+  });
+});
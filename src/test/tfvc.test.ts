@@ -0,0 +1,140 @@
+import * as assert from "assert";
+import { TFVC, VstfsConfig } from "../tfvc";
+import { ReplayRunner } from "./replayRunner";
+
+// TFVC's parsers against recorded client output: XML from English and German clients,
+// text tables at different console widths, and the fallback from XML to text
+suite("TFVC output parsing", () => {
+  const config: VstfsConfig = {
+    serverUrl: "",
+    project: "",
+    workspace: "jdoe-dev",
+    tfPath: "TF.exe",
+    root: "C:\\ws\\Main",
+    serverPath: "$/Proj/Main",
+    authType: "integrated",
+    auth: { type: "integrated" }
+  };
+  // TF.exe keeps the /options as written, so the recordings match the command lines in the code
+  const tfvc = (runner: ReplayRunner) => new TFVC("TF.exe", "C:\\ws\\Main", process.env, config, undefined, runner);
+
+  const TF10139 = "TF10139: The following option is not valid for this command: /format:xml";
+
+  test("XML status: change types, locks and owners", async () => {
+    const runner = new ReplayRunner().reply(/^status .*\/format:xml$/, "status-xml.xml");
+
+    const pending = await tfvc(runner).pendingChanges();
+
+    assert.deepStrictEqual(pending, [
+      { action: "edit", file: "C:\\ws\\Main\\src\\app.ts", user: "Jane Doe" },
+      { action: "add", file: "C:\\ws\\Main\\docs\\a very long file name that a narrow console would wrap.md", user: "Jane Doe" },
+      { action: "edit", file: "C:\\ws\\Main\\build.cmd", user: "Jane Doe", lock: "checkout" },
+      { action: "rename", file: "C:\\ws\\Main\\src\\util.ts", user: "Jane Doe" }
+    ]);
+  });
+
+  test("A plain \"no pending changes\" message ends the status lookup", async () => {
+    const runner = new ReplayRunner().reply(/^status .*\/format:xml$/, "status-none.txt");
+
+    const pending = await tfvc(runner).pendingChanges();
+
+    assert.deepStrictEqual(pending, []);
+    assert.strictEqual(runner.calls.length, 1);
+  });
+
+  test("XML status from a German client", async () => {
+    const runner = new ReplayRunner().reply(/^status .*\/format:xml$/, "status-xml-de.xml");
+
+    const pending = await tfvc(runner).pendingChanges();
+
+    assert.deepStrictEqual(pending, [
+      { action: "edit", file: "C:\\Arbeit\\Main\\src\\Anmeldung.cs", user: "Jürgen Müller", lock: "checkin" },
+      { action: "add", file: "C:\\Arbeit\\Main\\docs\\Übersicht.md", user: "Jürgen Müller" },
+      { action: "delete", file: "C:\\Arbeit\\Main\\alt\\Größen.txt", user: "Jürgen Müller" }
+    ]);
+  });
+
+  test("XML history from a German client", async () => {
+    const runner = new ReplayRunner().reply(/^history .*\/format:xml$/, "history-xml-de.xml");
+
+    const history = await tfvc(runner).history();
+
+    assert.deepStrictEqual(history.map(h => h.changesetId), [42, 40]);
+    assert.strictEqual(history[0].author, "Jürgen Müller");
+    assert.strictEqual(history[0].comment, "Fehlerbehebung: Anmeldung schlägt fehl & Sitzung läuft ab");
+    assert.strictEqual(history[0].date.toISOString(), "2024-03-05T13:22:10.137Z");
+    assert.deepStrictEqual(history[0].files, [
+      { path: "$/Proj/Main/src/Anmeldung.cs", change: "edit" },
+      { path: "$/Proj/Main/docs/Übersicht.md", change: "add" }
+    ]);
+    assert.deepStrictEqual(history[0].workItems, [{ id: 1234, title: "Anmeldung schlägt fehl" }]);
+    assert.strictEqual(history[1].comment, "Erste Fassung <Entwurf>");
+    assert.strictEqual(history[1].workItems, undefined);
+  });
+
+  test("XML branches list the whole hierarchy", async () => {
+    const runner = new ReplayRunner().reply(/^branches .*\/format:xml$/, "branches-xml.xml");
+
+    const branches = await tfvc(runner).listBranches();
+
+    assert.deepStrictEqual(branches, ["$/Proj/Main", "$/Proj/Dev", "$/Proj/Releases/1.0"]);
+  });
+
+  for (const width of ["wide", "narrow"]) {
+    test(`Text status falls back to the brief table (${width} console)`, async () => {
+      const runner = new ReplayRunner()
+        .fail(/^status .*\/format:xml$/, TF10139)
+        .fail(/^status .*\/format:detailed$/, "TF10139: The following option is not valid for this command: /format:detailed")
+        .reply(/^status .*\/format:brief$/, `status-brief-${width}.txt`);
+
+      const pending = await tfvc(runner).pendingChanges();
+
+      assert.deepStrictEqual(pending, [
+        { action: "add", file: "C:\\ws\\Main\\docs\\a very long file name that a narrow console would wrap.md" },
+        { action: "edit", file: "C:\\ws\\Main\\build.cmd" },
+        { action: "edit", file: "C:\\ws\\Main\\src\\app.ts" },
+        { action: "rename", file: "C:\\ws\\Main\\src\\util.ts" }
+      ]);
+    });
+  }
+
+  test("Text history after the client rejects /format:xml", async () => {
+    const runner = new ReplayRunner()
+      .fail(/^history .*\/format:xml$/, TF10139)
+      .reply(/^history .*\/format:detailed$/, "history-detailed.txt");
+    const client = tfvc(runner);
+
+    const history = await client.history();
+
+    assert.deepStrictEqual(history.map(h => h.changesetId), [42, 40]);
+    assert.strictEqual(history[0].author, "Jane Doe");
+    assert.strictEqual(history[0].comment, "Fix sign-in failing when the session expires");
+    assert.deepStrictEqual(history[0].files, [
+      { path: "$/Proj/Main/src/signin.ts", change: "edit" },
+      { path: "$/Proj/Main/docs/overview.md", change: "add" }
+    ]);
+
+    // The rejection is remembered: the next history call goes straight to the text format
+    await client.history();
+    assert.strictEqual(runner.ran(/^history .*\/format:xml$/).length, 1);
+    assert.strictEqual(runner.ran(/^history .*\/format:detailed$/).length, 2);
+  });
+
+  test("Other client errors are not mistaken for a missing XML format", async () => {
+    const runner = new ReplayRunner().fail(/^history /, "TF30063: You are not authorized to access the server.");
+
+    await assert.rejects(tfvc(runner).history(), /TF30063/);
+    assert.strictEqual(runner.ran(/\/format:detailed$/).length, 0);
+  });
+
+  test("Unparsable XML falls back to text for that call only", async () => {
+    const runner = new ReplayRunner()
+      .reply(/^history .*\/format:xml$/, "history-xml-truncated.xml")
+      .reply(/^history .*\/format:detailed$/, "history-detailed.txt");
+    const client = tfvc(runner);
+
+    assert.deepStrictEqual((await client.history()).map(h => h.changesetId), [42, 40]);
+    await client.history();
+    assert.strictEqual(runner.ran(/^history .*\/format:xml$/).length, 2);
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// .tfignore rules, following TFVC's semantics:
+// - every folder may have a .tfignore; its rules apply to that folder and everything below it
+// - "#" starts a comment, blank lines are skipped
+// - "*" and "?" are wildcards within one path segment
+// - a leading "\" anchors the rule to the .tfignore's folder; otherwise it matches at any depth,
+//   and a rule with a folder part ("ProjA\*.cpp") matches anywhere in that folder's subtree
+// - a rule matching a folder ignores everything inside it
+// - "!" excludes matches from being ignored; the last matching rule wins, deeper files after shallower ones
+
+export interface TfIgnoreRule {
+  text: string;      // the original line
+  line: number;      // 1-based line in the .tfignore
+  source: string;    // path of the .tfignore file
+  negate: boolean;
+  anchored: boolean;
+  segments: RegExp[];
+}
+
+export interface TfIgnoreResult {
+  ignored: boolean;
+  // Last rule that matched; for "not ignored" this is the "!" rule that re-included the file, if any
+  rule?: TfIgnoreRule;
+}
+
+export function parseTfIgnore(content: string, source: string = ".tfignore"): TfIgnoreRule[] {
+  const rules: TfIgnoreRule[] = [];
+  content.split(/\r?\n/).forEach((raw, index) => {
+    let text = raw.trim();
+    if (!text || text.startsWith("#")) return;
+
+    const negate = text.startsWith("!");
+    if (negate) text = text.substring(1).trim();
+    const normalized = text.replace(/\//g, "\\");
+    const anchored = normalized.startsWith("\\");
+    const segments = normalized.split("\\").filter(Boolean).map(segmentToRegExp);
+    if (segments.length === 0) return;
+
+    rules.push({ text: raw.trim(), line: index + 1, source, negate, anchored, segments });
+  });
+  return rules;
+}
+
+// relPath: path of the item relative to the folder holding the rules, "/" or "\" separated
+export function matchRules(rules: TfIgnoreRule[], relPath: string, result: TfIgnoreResult = { ignored: false }): TfIgnoreResult {
+  const parts = relPath.split(/[\\/]/).filter(Boolean);
+  for (const rule of rules) {
+    if (ruleMatches(rule, parts)) {
+      result = { ignored: !rule.negate, rule };
+    }
+  }
+  return result;
+}
+
+function ruleMatches(rule: TfIgnoreRule, parts: string[]): boolean {
+  const folders = rule.segments.slice(0, -1);
+  const name = rule.segments[rule.segments.length - 1];
+  // The folder part matches a window of the path; anchored rules only at the start
+  const lastStart = rule.anchored ? 0 : parts.length - rule.segments.length;
+  for (let start = 0; start <= lastStart; start++) {
+    if (!folders.every((re, i) => re.test(parts[start + i]))) continue;
+    const below = parts.slice(start + folders.length);
+    // The last segment matches right there for anchored rules, anywhere in the subtree otherwise
+    if (rule.anchored ? name.test(below[0] ?? "") : below.some(part => name.test(part))) return true;
+  }
+  return false;
+}
+
+function segmentToRegExp(segment: string): RegExp {
+  const body = segment
+    .split("")
+    .map(ch => ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+    .join("");
+  return new RegExp(`^${body}$`, "i");
+}
+
+// Reads the .tfignore files between a workspace root and each item, re-reading them only when they change
+export class TfIgnore {
+  private cache = new Map<string, { mtimeMs: number; rules: TfIgnoreRule[] }>();
+
+  constructor(private root: string) {}
+
+  isIgnored(localPath: string): boolean {
+    return this.explain(localPath).ignored;
+  }
+
+  explain(localPath: string): TfIgnoreResult {
+    const rel = path.relative(this.root, localPath);
+    if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) return { ignored: false };
+
+    // Root-most .tfignore first so deeper files can override it
+    const parts = rel.split(/[\\/]/).filter(Boolean);
+    let result: TfIgnoreResult = { ignored: false };
+    for (let depth = 0; depth < parts.length; depth++) {
+      const dir = path.join(this.root, ...parts.slice(0, depth));
+      const rules = this.rulesFor(dir);
+      if (rules.length > 0) {
+        result = matchRules(rules, parts.slice(depth).join("/"), result);
+      }
+    }
+    return result;
+  }
+
+  private rulesFor(dir: string): TfIgnoreRule[] {
+    const file = path.join(dir, ".tfignore");
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(file).mtimeMs;
+    } catch {
+      this.cache.delete(file);
+      return [];
+    }
+    const cached = this.cache.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.rules;
+    const rules = parseTfIgnore(fs.readFileSync(file, "utf8"), file);
+    this.cache.set(file, { mtimeMs, rules });
+    return rules;
+  }
+}
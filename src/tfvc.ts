@@ -1,8 +1,10 @@
-import { execFile } from "node:child_process";
 import * as vscode from "vscode";
-import * as os from "os";
-import * as fs from "fs";
 import * as path from "path";
+import { TfIgnore } from "./tfignore";
+import type { TfvcBackend } from "./backend";
+import { AuthType, redact } from "./auth";
+import { XmlElement, attribute, childText, descendants, parseXml } from "./xml";
+import { CommandQueue, CommandRunner, activeSignal, execFileRunner } from "./runner";
 
 export interface TFHistoryItem {
   changesetId: number;
@@ -10,13 +12,80 @@ export interface TFHistoryItem {
   date: Date;
   comment: string;
   files: { path: string; change: string }[];
+  workItems?: TFWorkItemRef[];
+}
+
+export interface TFWorkItemRef {
+  id: number;
+  title?: string;
 }
 
 export interface TFPendingItem {
   file: string;
   action: "edit" | "add" | "delete" | "rename" | "merge" | "unknown";
+  // Only filled in by detailed status output
+  user?: string;
+  lock?: TFLockType;
+}
+
+export interface TFShelveset {
+  name: string;
+  owner: string;
+  date: Date;
+  comment: string;
+}
+
+export interface TFLabel {
+  name: string;
+  owner: string;
+  date: Date;
+  comment: string;
+  scope?: string;
 }
 
+export interface TFWorkspace {
+  name: string;
+  owner: string;
+  computer: string;
+  comment: string;
+  location?: TFWorkspaceLocation;
+  mappings: TFMapping[];
+}
+
+export interface TFMapping {
+  serverPath: string;
+  localPath?: string; // undefined for cloaked folders
+  cloaked: boolean;
+}
+
+// tf workspace /location: options
+export type TFWorkspaceLocation = "local" | "server";
+
+export interface TFShelvedChange {
+  file: string;
+  action: TFPendingItem["action"];
+  // Server version the change was made against, when the client reports it
+  baseVersion?: number;
+}
+
+export interface TFConflict {
+  file: string;        // local path of the conflicting item
+  serverPath: string;
+  description: string;
+  kind: "merge" | "version";
+  // Source branch item for merge conflicts, when the merge was started from this session
+  sourcePath?: string;
+  // Source changesets the merge took (theirs), and the one before them: the version both sides share
+  sourceVersion?: number;
+  baseVersion?: number;
+}
+
+// tf resolve /auto: options
+export type TFResolution = "AutoMerge" | "TakeTheirs" | "KeepYours" | "OverwriteLocal" | "DeleteConflict";
+
+// tf checkout /lock: options
+export type TFLockType = "none" | "checkin" | "checkout";
+
 export interface VstfsConfig {
   serverUrl: string;
   project: string;
@@ -24,18 +93,34 @@ export interface VstfsConfig {
   tfPath: string;
   root: string;
   serverPath: string; // Add server path for TFVC operations
-  authType: "integrated";
-  auth: { type: "integrated" };
+  authType: AuthType;
+  auth: { type: AuthType; token?: string };
+  autoPromote?: boolean;
 }
 
-export class TFVC {
+// The TF.exe backend; every operation runs the command-line client in the mapped workspace
+export class TFVC implements TfvcBackend {
+  // Remembered so merge conflicts can be traced back to their source branch item and versions
+  private lastMerge?: { src: string; dst: string; from?: number; to?: number };
+  // .tfignore rules under the working folder; applied to detected adds and any add we pend
+  readonly ignore: TfIgnore;
+  // Personal access token passed to TF.exe via /login when authType is "pat"
+  private token?: string;
+  // Commands whose client rejected /format:xml; they use the text formats for the rest of the session
+  private textOnly = new Set<string>();
+  // Views refresh while commands run; reads share the workspace, writes get it to themselves
+  private queue = new CommandQueue();
+
   constructor(
     private tfPath: string, 
     private cwd: string, 
     private env: NodeJS.ProcessEnv,
     private config?: VstfsConfig,
-    private output?: vscode.OutputChannel
+    private output?: vscode.OutputChannel,
+    private runner: CommandRunner = execFileRunner
   ) {
+    this.ignore = new TfIgnore(cwd);
+    this.token = config?.auth.token;
     this.log(`VSTFS: TFVC initialized with:`);
     this.log(`  - tfPath: ${tfPath}`);
     this.log(`  - cwd: ${cwd}`);
@@ -43,14 +128,24 @@ export class TFVC {
     this.log(`  - workspace: ${config?.workspace}`);
   }
 
+  // Switches authentication without reloading, e.g. after Set PAT / Sign Out
+  setAuth(authType: AuthType, token?: string) {
+    if (this.config) {
+      this.config.authType = authType;
+      this.config.auth = { type: authType, token };
+    }
+    this.token = authType === "pat" ? token : undefined;
+  }
+
   private log(message: string) {
+    message = redact(message, [this.token]);
     if (this.output) {
       this.output.appendLine(message);
     }
     console.log(message);
   }
 
-  private getCollectionUrl(): string {
+  getCollectionUrl(): string {
     const raw = this.config?.serverUrl?.trim() || "";
     try {
       const u = new URL(raw);
@@ -84,6 +179,11 @@ export class TFVC {
 
   // Trigger TFVC sign-in UI by calling a command that requires auth
   public async signIn(): Promise<void> {
+    if (this.config?.authType === "pat") {
+      throw new Error(this.token
+        ? "TFVC: The personal access token was rejected. Run 'TFVC: Set Personal Access Token' to replace it."
+        : "TFVC: No personal access token is set. Run 'TFVC: Set Personal Access Token'.");
+    }
     if (!this.config?.serverUrl) {
       throw new Error("VSTFS: serverUrl is not configured. Set 'vstfs.serverUrl' in settings.");
     }
@@ -97,42 +197,58 @@ export class TFVC {
     }
   }
 
-  private execOnce(args: string[]): Promise<{ stdout: string; stderr: string }> {
-    return new Promise((resolve, reject) => {
-      execFile(
-        this.tfPath,
-        args,
-        { cwd: this.cwd, env: this.env, windowsHide: true, maxBuffer: 32 * 1024 * 1024 },
-        (err, stdout, stderr) => {
-          if (err) {
-            const msg = (stderr || stdout || String(err)).toString();
-            return reject(new Error(msg));
-          }
-          resolve({ stdout, stderr });
-        }
-      );
+  // Options are written TF.exe-style ("/recursive"); Team Explorer Everywhere's cross-platform
+  // `tf` wants "-recursive", since "/" starts a path on Linux and macOS
+  private clientArgs(args: string[]): string[] {
+    if (/\.exe$/i.test(this.tfPath)) return args;
+    return args.map(a => {
+      const m = a.match(/^\/([A-Za-z]+)(?=:|$)/);
+      return m && TF_OPTIONS.has(m[1].toLowerCase()) ? `-${a.substring(1)}` : a;
     });
   }
 
-  // Same as execOnce but with windowsHide:false so auth UI can appear
+  private execOnce(args: string[]): Promise<{ stdout: string; stderr: string }> {
+    return this.exec(args, false);
+  }
+
+  // Same as execOnce but with the window shown so auth UI can appear
   private execVisibleOnce(args: string[]): Promise<{ stdout: string; stderr: string }> {
-    return new Promise((resolve, reject) => {
-      execFile(
-        this.tfPath,
-        args,
-        { cwd: this.cwd, env: this.env, windowsHide: false, maxBuffer: 32 * 1024 * 1024 },
-        (err, stdout, stderr) => {
-          if (err) {
-            const msg = (stderr || stdout || String(err)).toString();
-            return reject(new Error(msg));
-          }
-          resolve({ stdout, stderr });
-        }
+    return this.exec(args, true);
+  }
+
+  private async exec(args: string[], visible: boolean): Promise<{ stdout: string; stderr: string }> {
+    const signal = activeSignal();
+    // The sign-in window waits on the user, so it isn't timed
+    const timeoutMs = visible ? 0 : this.timeoutFor(args[0]);
+    try {
+      return await this.queue.run(
+        !isReadOnly(args),
+        () => this.runner.run(this.tfPath, this.clientArgs(args), { cwd: this.cwd, env: this.env, visible, timeoutMs, signal }),
+        signal
       );
-    });
+    } catch (e: any) {
+      // The token is on the command line, and clients may echo it back
+      throw Object.assign(new Error(redact(String(e?.message || e), [this.token])), {
+        cancelled: e?.cancelled,
+        timedOut: e?.timedOut
+      });
+    }
+  }
+
+  // vstfs.commandTimeouts: seconds by command name, "default" for the rest; 0 never stops it
+  private timeoutFor(command: string): number {
+    const timeouts = vscode.workspace
+      .getConfiguration("vstfs", vscode.Uri.file(this.cwd))
+      .get<Record<string, number>>("commandTimeouts", {});
+    const seconds = timeouts[command] ?? timeouts.default ?? 120;
+    return Math.max(0, seconds) * 1000;
   }
 
   private async execWithAuthRetry(args: string[]): Promise<{ stdout: string; stderr: string }> {
+    if (this.token) {
+      // Any user name works with a PAT; logs show it masked
+      args = [...args, `/login:,${this.token}`];
+    }
     try {
       return await this.execOnce(args);
     } catch (e: any) {
@@ -150,7 +266,7 @@ export class TFVC {
   public toLocalPath(serverOrLocalPath: string): string {
     const cleaned = serverOrLocalPath.replace(/;C\d+$/i, "");
     // Already a local absolute path
-    if (/^[A-Za-z]:\\/.test(cleaned)) return cleaned;
+    if (isLocalPath(cleaned)) return cleaned;
 
     // Server path under mapped serverPath → map to cwd
     if (this.config?.serverPath && cleaned.startsWith(this.config.serverPath)) {
@@ -158,16 +274,24 @@ export class TFVC {
         .substring(this.config.serverPath.length)
         .replace(/^\/?/, "")
         .replace(/\\/g, "/");
-      return path.join(this.cwd, rel).replace(/\//g, "\\");
+      return path.join(this.cwd, rel);
     }
 
     // Raw server path like $/...
     if (/^\$\//.test(cleaned)) {
-      return path.join(this.cwd, cleaned.replace(/^\$\//, "").replace(/\\/g, "/")).replace(/\//g, "\\");
+      return path.join(this.cwd, cleaned.replace(/^\$\//, "").replace(/\\/g, "/"));
     }
 
     // Fallback: treat as relative to cwd
-    return path.join(this.cwd, cleaned).replace(/\//g, "\\");
+    return path.join(this.cwd, cleaned);
+  }
+
+  // Inverse of toLocalPath: local file under cwd → server path under the mapped serverPath
+  public toServerPath(localPath: string): string {
+    if (/^\$\//.test(localPath) || !this.config?.serverPath) return localPath;
+    const rel = path.relative(this.cwd, localPath);
+    if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) return localPath;
+    return `${this.config.serverPath.replace(/\/$/, "")}/${rel.replace(/\\/g, "/")}`;
   }
 
   private logPending(label: string, items: TFPendingItem[]) {
@@ -177,74 +301,12 @@ export class TFVC {
     }
   }
 
-  private async ensureWorkspaceConfigured(): Promise<void> {
-    if (!this.config?.serverUrl || !this.config?.workspace) {
-      return; // Can't configure without these
-    }
-
-    try {
-      // Check if current folder already has a mapping
-      const { stdout: workfoldOutput } = await this.runBasic(["workfold"]);
-      if (workfoldOutput.includes(this.cwd) || workfoldOutput.includes(this.config.workspace)) {
-        return; // Already mapped/configured
-      }
-
-      // Attempt to map server path to local folder using workfold
-      const serverPath = this.config?.serverPath || `$/Era/Prototypes/Overpowered`;
-
-      await this.runBasic([
-        "workfold",
-        "/map",
-        serverPath,
-        this.cwd,
-        "/workspace:" + this.config.workspace,
-        "/collection:" + this.getCollectionUrl(),
-      ]);
-
-      console.log(`Successfully mapped ${serverPath} -> ${this.cwd} for workspace ${this.config.workspace}`);
-    } catch (error) {
-      console.warn("Failed to map existing workspace:", error);
-      
-      // If mapping fails, try to create a new workspace (fallback)
-      try {
-        // Create workspace (server-scoped by default) and then map
-        await this.runBasic([
-          "workspace",
-          "/new",
-          this.config.workspace,
-          "/collection:" + this.getCollectionUrl(),
-          "/location:server",
-        ]);
-
-        const serverPath = this.config?.serverPath || `$/Era/Prototypes/Overpowered`;
-
-        await this.runBasic([
-          "workfold",
-          "/map",
-          serverPath,
-          this.cwd,
-          "/workspace:" + this.config.workspace,
-          "/collection:" + this.getCollectionUrl(),
-        ]);
-
-        console.log(`Created workspace ${this.config.workspace} and mapped ${serverPath} -> ${this.cwd}`);
-      } catch (createError) {
-        console.error("Failed to create workspace:", createError);
-        throw new Error(`Cannot configure TFVC workspace: ${createError}`);
-      }
-    }
-  }
-
   private runBasic(args: string[]): Promise<{ stdout: string; stderr: string }> {
     this.log(`VSTFS: Running basic TF.exe with args: ${args.join(' ')}`);
     return this.execWithAuthRetry(args);
   }
 
   private async run(args: string[]): Promise<{ stdout: string; stderr: string }> {
-    // Ensure workspace is configured before running any commands
-    this.log(`VSTFS: Configuring workspace before running: ${args.join(' ')}`);
-    await this.ensureWorkspaceConfigured();
-    
     // Only add collection parameter to specific commands that support it
     const fullArgs = [...args];
     if (this.config?.serverUrl && this.shouldAddCollection(args[0])) {
@@ -262,22 +324,87 @@ export class TFVC {
   // Only add collection parameter to commands that support it
   private shouldAddCollection(command: string): boolean {
     const collectionCommands = [
-      'workspaces', 'workspace', 'configure', 'login', 'logout', 'permission',
-      'status', 'history', 'changeset'
+      'workspaces', 'workspace', 'workfold', 'configure', 'login', 'logout', 'permission',
+      'status', 'history', 'changeset', 'shelvesets', 'labels'
     ];
     return collectionCommands.includes(command);
   }
 
+  // Runs a command with /format:xml and parses the element tree, which doesn't depend on the
+  // client's language or console width. Returns undefined when no XML came back, so the caller
+  // falls back to the text format and its parser. Clients print a plain message instead of an
+  // empty document when there is nothing to list (e.g. nothing pending); callers that pass
+  // `empty` get it back for that, instead of trying the text formats as well.
+  private async runXml<T>(
+    args: string[],
+    parse: (root: XmlElement) => T,
+    exec: (args: string[]) => Promise<{ stdout: string }> = a => this.run(a),
+    empty?: T
+  ): Promise<T | undefined> {
+    const command = args[0];
+    if (this.textOnly.has(command)) return undefined;
+
+    let stdout: string;
+    try {
+      ({ stdout } = await exec([...args, "/format:xml"]));
+    } catch (e: any) {
+      const msg = String(e?.message || e);
+      if (!/\bxml\b|[/-]format|TF10139/i.test(msg)) throw e;
+      this.log(`VSTFS: tf ${command} doesn't support /format:xml, using text output: ${msg}`);
+      this.textOnly.add(command);
+      return undefined;
+    }
+
+    if (!stdout.includes("<")) {
+      if (empty !== undefined) this.log(`VSTFS: tf ${command} printed no XML, taking it as nothing to list: ${stdout.trim()}`);
+      return empty;
+    }
+    try {
+      return parse(parseXml(stdout.substring(stdout.indexOf("<"))));
+    } catch (e) {
+      this.log(`VSTFS: Could not parse XML from tf ${command}, using text output: ${String(e)}`);
+      return undefined;
+    }
+  }
+
+  // tf history, from XML when the client supports it
+  private async historyOf(args: string[]): Promise<TFHistoryItem[]> {
+    const items = await this.runXml(args, parseHistoryXml);
+    if (items) return items;
+    const { stdout } = await this.run([...args, "/format:detailed"]);
+    return parseHistory(stdout);
+  }
+
   // --- Core operations ---
 
   async getLatest(target: string = "."): Promise<void> {
-    await this.run(["get", target, "/recursive"]);
+    try {
+      await this.run(["get", target, "/recursive"]);
+    } catch (e: any) {
+      // Like merge, get exits non-zero when it leaves conflicts behind; those are handled via conflicts()
+      if (!/conflict/i.test(String(e?.message || e))) throw e;
+      this.log(`VSTFS: Get completed with conflicts: ${String(e?.message || e)}`);
+    }
   }
 
   async pendingChanges(): Promise<TFPendingItem[]> {
-    // Try multiple approaches to detect pending changes
     this.log("VSTFS: Attempting to detect pending changes...");
 
+    // XML status is complete and unambiguous, so an empty result (or the "no pending changes"
+    // message that replaces it) is final
+    try {
+      const xml = await this.runXml(["status", "/recursive"], parsePendingXml, a => this.runBasic(a), []);
+      if (xml) {
+        const result = xml.map(it => ({ ...it, file: this.toLocalPath(it.file) }));
+        this.logPending("VSTFS: Pending (xml)", result);
+        return result;
+      }
+    } catch (e) {
+      this.log(`VSTFS: XML status failed: ${e}`);
+    }
+
+    // Text output: try multiple approaches to detect pending changes
+
     // 0) Detailed status first to avoid truncated table output
     try {
       const { stdout } = await this.runBasic([
@@ -287,7 +414,7 @@ export class TFVC {
       ]);
       this.log(`VSTFS: Detailed status result (first 200): ${stdout.substring(0, 200)}...`);
       const detailed = parsePendingDetailed(stdout).map(it => ({
-        action: it.action,
+        ...it,
         file: this.toLocalPath(it.file)
       }));
       if (detailed.length > 0) {
@@ -356,13 +483,34 @@ export class TFVC {
     }
   }
 
-  async checkIn(comment: string, files?: string[]): Promise<void> {
-    // Ensure newly added files are pended (like VS "Promote")
-    try {
-      await this.run(["add", ".", "/recursive", "/noprompt"]);
-    } catch (e) {
-      // Non-fatal if nothing to add
-      this.log(`VSTFS: Auto-add before check-in: ${String(e)}`);
+  // Pending changes of every user under the mapped serverPath, or on one item (who has what checked out or locked)
+  async teamPendingChanges(item: string = this.config?.serverPath || "."): Promise<TFPendingItem[]> {
+    const args = ["status", item, "/user:*", "/recursive", "/noprompt"];
+    const items = await this.runXml(args, parsePendingXml, a => this.runBasic(a), [])
+      ?? parsePendingDetailed((await this.runBasic([...args, "/format:detailed"])).stdout);
+    return items.map(it => ({ ...it, file: this.toLocalPath(it.file) }));
+  }
+
+  async checkIn(comment: string, files?: string[], options: { workItems?: number[]; notes?: Record<string, string> } = {}): Promise<void> {
+    const conflicts = await this.conflicts().catch(e => {
+      this.log(`VSTFS: Conflict check before check-in failed (continuing): ${String(e)}`);
+      return [] as TFConflict[];
+    });
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Check-in blocked: ${conflicts.length} unresolved conflict(s). Resolve them in the Conflicts view first ` +
+        `(${conflicts.slice(0, 3).map(c => path.basename(c.file)).join(", ")}${conflicts.length > 3 ? ", ..." : ""}).`
+      );
+    }
+
+    // Opt-in: pend every detected add/delete first (like VS "Promote"); otherwise users promote explicitly
+    if (this.config?.autoPromote) {
+      try {
+        await this.promote(await this.candidateChanges());
+      } catch (e) {
+        // Non-fatal if nothing to promote
+        this.log(`VSTFS: Auto-promote before check-in: ${String(e)}`);
+      }
     }
 
     let args: string[] = ["checkin"]; 
@@ -380,9 +528,58 @@ export class TFVC {
       args.push("/noprompt");
     }
 
+    // Explicit work items plus "#1234" mentions in the comment
+    const workItems = [...new Set([...(options.workItems || []), ...workItemMentions(comment)])];
+    if (workItems.length > 0) {
+      args.push(`/associate:${workItems.join(",")}`);
+    }
+
+    // Check-in notes: /notes:"Code Reviewer"="name";"Security Reviewer"="name"
+    const notes = Object.entries(options.notes || {}).filter(([, value]) => value.trim());
+    if (notes.length > 0) {
+      args.push(`/notes:${notes.map(([name, value]) => `"${name}"="${value.replace(/"/g, "'")}"`).join(";")}`);
+    }
+
     await this.run(args);
   }
 
+  async checkout(files: string[], lock: TFLockType = "none"): Promise<void> {
+    await this.run(["checkout", ...files, `/lock:${lock}`, "/noprompt"]);
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    await this.run(["rename", from, to, "/noprompt"]);
+  }
+
+  async delete(items: string[]): Promise<void> {
+    await this.run(["delete", ...items, "/noprompt"]);
+  }
+
+  // Detected changes: untracked files and files deleted on disk that aren't pended yet
+  async candidateChanges(): Promise<TFPendingItem[]> {
+    const args = ["status", ".", "/recursive", "/candidate", "/noprompt"];
+    const items = await this.runXml(args, parsePendingXml, a => this.runBasic(a), [])
+      ?? parsePendingDetailed((await this.runBasic([...args, "/format:detailed"])).stdout);
+    return items
+      .filter(it => it.action === "add" || it.action === "delete")
+      .map(it => ({ action: it.action, file: this.toLocalPath(it.file) }))
+      .filter(it => it.action !== "add" || !this.ignore.isIgnored(it.file));
+  }
+
+  async promote(items: TFPendingItem[]): Promise<void> {
+    const adds = items
+      .filter(i => i.action === "add")
+      .map(i => i.file)
+      .filter(file => {
+        const ignored = this.ignore.isIgnored(file);
+        if (ignored) this.log(`VSTFS: Not adding ${file}: excluded by .tfignore`);
+        return !ignored;
+      });
+    const deletes = items.filter(i => i.action === "delete").map(i => i.file);
+    if (adds.length > 0) await this.run(["add", ...adds, "/noprompt"]);
+    if (deletes.length > 0) await this.delete(deletes);
+  }
+
   async undo(items?: string[]): Promise<void> {
     if (items && items.length > 0) {
       await this.run(["undo", ...items, "/noprompt"]);
@@ -393,6 +590,8 @@ export class TFVC {
 
   async listBranches(): Promise<string[]> {
     const item = this.config?.serverPath || this.cwd || ".";
+    const xml = await this.runXml(["branches", item], parseBranchesXml);
+    if (xml) return xml;
     const { stdout } = await this.run(["branches", item]);
     return parseBranches(stdout);
   }
@@ -403,58 +602,133 @@ export class TFVC {
 
   async merge(src: string, dst: string, options: { changesetFrom?: number; changesetTo?: number } = {}): Promise<void> {
     const args = ["merge", src, dst];
+    let range: { from: number; to: number } | undefined;
     if (options.changesetFrom && options.changesetTo) {
       args.push(`/version:C${options.changesetFrom}~C${options.changesetTo}`);
+      range = { from: options.changesetFrom, to: options.changesetTo };
+    } else {
+      // A merge of everything takes the current candidates
+      const ids = await this.run(["merge", "/candidate", src, dst, "/recursive", "/noprompt"])
+        .then(({ stdout }) => parseMergeCandidates(stdout).map(c => c.changesetId))
+        .catch(() => [] as number[]);
+      if (ids.length > 0) range = { from: Math.min(...ids), to: Math.max(...ids) };
+    }
+    this.lastMerge = { src, dst, ...range };
+    try {
+      await this.run(args);
+    } catch (e: any) {
+      // tf merge exits non-zero when it leaves conflicts behind; those are handled via conflicts()
+      if (!/conflict/i.test(String(e?.message || e))) throw e;
+      this.log(`VSTFS: Merge completed with conflicts: ${String(e?.message || e)}`);
     }
-    await this.run(args);
   }
 
-  async resolve(): Promise<void> {
-    // Simple resolve prompt to open built-in resolve, if available:
+  // Changesets in src not yet merged into dst, oldest first, with comments from src history
+  async mergeCandidates(src: string, dst: string): Promise<TFHistoryItem[]> {
+    const { stdout } = await this.run(["merge", "/candidate", src, dst, "/recursive", "/noprompt"]);
+    const candidates = parseMergeCandidates(stdout);
+    if (candidates.length === 0) return [];
+
+    // tf merge /candidate has no comments; fill them in with one history call over the candidate range
+    const ids = candidates.map(c => c.changesetId);
     try {
-      await this.run(["resolve", "/auto:AutoMerge"]);
-    } catch {
-      // fallback: open a message
-      vscode.window.showInformationMessage("Conflicts detected. Please run 'tf resolve' from terminal to handle manually.");
+      const history = await this.historyOf([
+        "history",
+        src,
+        "/recursive",
+        "/noprompt",
+        `/version:C${Math.min(...ids)}~C${Math.max(...ids)}`
+      ]);
+      const byId = new Map(history.map(h => [h.changesetId, h]));
+      for (const c of candidates) {
+        const h = byId.get(c.changesetId);
+        if (h) {
+          c.comment = h.comment;
+          c.files = h.files;
+          if (isNaN(c.date.getTime())) c.date = h.date;
+        }
+      }
+    } catch (e) {
+      this.log(`VSTFS: Could not load comments for merge candidates: ${String(e)}`);
+    }
+    return candidates.sort((a, b) => a.changesetId - b.changesetId);
+  }
+
+  async conflicts(): Promise<TFConflict[]> {
+    let stdout: string;
+    try {
+      ({ stdout } = await this.run(["resolve", ".", "/recursive", "/preview", "/noprompt"]));
+    } catch (e: any) {
+      // "There are no conflicts" may be reported through a non-zero exit code
+      const msg = String(e?.message || e);
+      if (/no conflicts/i.test(msg)) return [];
+      throw e;
+    }
+    return parseConflicts(stdout).map(c => {
+      const file = this.toLocalPath(c.file);
+      const serverPath = this.toServerPath(file);
+      const conflict: TFConflict = { file, serverPath, description: c.description, kind: c.kind };
+      if (c.kind === "merge" && this.lastMerge && serverPath.toLowerCase().startsWith(this.lastMerge.dst.toLowerCase())) {
+        conflict.sourcePath = this.lastMerge.src + serverPath.substring(this.lastMerge.dst.length);
+        if (this.lastMerge.to) conflict.sourceVersion = this.lastMerge.to;
+        if (this.lastMerge.from) conflict.baseVersion = this.lastMerge.from - 1;
+      }
+      return conflict;
+    });
+  }
+
+  async resolve(items?: string[], resolution: TFResolution = "AutoMerge"): Promise<void> {
+    if (items && items.length > 0) {
+      await this.run(["resolve", ...items, `/auto:${resolution}`, "/noprompt"]);
+      return;
     }
+    await this.run(["resolve", ".", "/recursive", `/auto:${resolution}`, "/noprompt"]);
   }
 
   async history(target: string = ".", max: number = 50): Promise<TFHistoryItem[]> {
     const item = target === "." ? (this.config?.serverPath || this.cwd || ".") : target;
-    // Detailed format is easier to parse
-    const { stdout } = await this.run(["history", item, "/recursive", "/format:detailed", `/stopafter:${max}`, "/noprompt"]);
-    return parseHistory(stdout);
+    return this.historyOf(["history", item, "/recursive", `/stopafter:${max}`, "/noprompt"]);
   }
 
   async changeset(id: number): Promise<TFHistoryItem | null> {
-    // Use history in detailed format filtered to the specific changeset
+    // History filtered to the specific changeset
     const item = this.config?.serverPath || this.cwd || ".";
-    const { stdout } = await this.run([
+    const items = await this.historyOf([
       "history",
       item,
       "/recursive",
-      "/format:detailed",
       "/noprompt",
       `/version:C${id}~C${id}`
     ]);
-    const items = parseHistory(stdout);
     const match = items.find(h => h.changesetId === id) || items[0];
     return match || null;
   }
 
-  async getFileAtChangeset(file: string, id: number): Promise<string> {
-    // Normalize to local absolute path in working folder
-    const localTarget = this.toLocalPath(file);
-    const tmpDir = os.tmpdir();
-    const tmpFile = path.join(tmpDir, `vstfs-C${id}-${path.basename(localTarget).replace(/[\\/:*?"<>|]/g, "_")}`);
+  // Associated work items come from `tf changeset`, history doesn't list them
+  async changesetWorkItems(id: number): Promise<TFWorkItemRef[]> {
+    const { stdout } = await this.run(["changeset", `${id}`, "/noprompt"]);
+    return parseWorkItems(stdout);
+  }
 
-    // Use tf view to get content at specific changeset
-    const { stdout } = await this.run(["view", `${file};C${id}`, "/noprompt"]);
+  workItemUrl(id: number): string | undefined {
+    if (!this.config?.serverUrl) return undefined;
+    const project = this.config.project ? `/${encodeURIComponent(this.config.project)}` : "";
+    return `${this.getCollectionUrl()}${project}/_workitems/edit/${id}`;
+  }
+
+  // Content of a server item at a version spec (e.g. "C1234", "T", "W")
+  async view(file: string, versionSpec: string): Promise<string> {
+    const { stdout } = await this.run(["view", `${file};${versionSpec}`, "/noprompt"]);
+    return stdout;
+  }
+
+  // Writes the item's content at a version spec to a local file, byte for byte
+  async download(file: string, versionSpec: string, localPath: string): Promise<void> {
+    await this.run(["view", `${file};${versionSpec}`, `/output:${localPath}`, "/noprompt"]);
+  }
 
-    // Ensure CRLF for Windows text files; write UTF-8
-    const normalized = stdout.replace(/\r?\n/g, os.EOL);
-    fs.writeFileSync(tmpFile, normalized, { encoding: "utf8" });
-    return tmpFile;
+  async getFileAtChangeset(file: string, id: number): Promise<string> {
+    return this.view(file, `C${id}`);
   }
 
   async rollbackToChangeset(id: number): Promise<void> {
@@ -463,15 +737,14 @@ export class TFVC {
 
   async getPreviousChangesetIdForFile(file: string, currentId: number): Promise<number | null> {
     try {
-      const { stdout } = await this.run([
+      const history = await this.historyOf([
         "history",
         file,
-        "/format:detailed",
         "/stopafter:2",
         `/version:C1~C${currentId}`,
         "/noprompt"
       ]);
-      const items = parseHistory(stdout)
+      const items = history
         .filter(h => h.files.some(f => f.path.toLowerCase().includes(path.basename(file).toLowerCase())));
       if (items.length === 0) return null;
       // Results are typically newest-first; pick the first id < current if present, otherwise the second item
@@ -485,9 +758,158 @@ export class TFVC {
       return null;
     }
   }
+
+  // --- Workspaces and mappings ---
+  // Nothing here runs implicitly; every change comes from an explicit, confirmed command
+
+  async workspaces(): Promise<TFWorkspace[]> {
+    const { stdout } = await this.run(["workspaces", "/format:detailed", "/noprompt"]);
+    return parseWorkspaces(stdout);
+  }
+
+  // True when the working folder is mapped in some workspace on this machine
+  async isMapped(): Promise<boolean> {
+    try {
+      const { stdout } = await this.runBasic(["workfold", this.cwd]);
+      return !/no working folder mapping|unable to determine the workspace/i.test(stdout);
+    } catch (e: any) {
+      if (/no working folder mapping|unable to determine the workspace|not a working folder/i.test(String(e?.message || e))) return false;
+      throw e;
+    }
+  }
+
+  async createWorkspace(name: string, location: TFWorkspaceLocation, comment?: string): Promise<void> {
+    const args = ["workspace", "/new", name, `/location:${location}`];
+    if (comment) args.push(`/comment:${comment}`);
+    args.push("/noprompt");
+    await this.run(args);
+  }
+
+  async deleteWorkspace(name: string): Promise<void> {
+    await this.run(["workspace", "/delete", name, "/noprompt"]);
+  }
+
+  async setWorkspaceLocation(name: string, location: TFWorkspaceLocation): Promise<void> {
+    await this.run(["workspace", name, `/location:${location}`, "/noprompt"]);
+  }
+
+  async map(workspace: string, serverPath: string, localPath: string): Promise<void> {
+    await this.run(["workfold", "/map", serverPath, localPath, `/workspace:${workspace}`]);
+  }
+
+  async unmap(workspace: string, localPath: string): Promise<void> {
+    await this.run(["workfold", "/unmap", localPath, `/workspace:${workspace}`]);
+  }
+
+  async cloak(workspace: string, serverPath: string): Promise<void> {
+    await this.run(["workfold", "/cloak", serverPath, `/workspace:${workspace}`]);
+  }
+
+  async decloak(workspace: string, serverPath: string): Promise<void> {
+    await this.run(["workfold", "/decloak", serverPath, `/workspace:${workspace}`]);
+  }
+
+  // Makes later commands use another workspace (e.g. for /workspace: status queries)
+  setWorkspace(name: string) {
+    if (this.config) this.config.workspace = name;
+  }
+
+  // --- Labels ---
+
+  async labels(filter?: string): Promise<TFLabel[]> {
+    const args = ["labels"];
+    if (filter) args.push(filter);
+    args.push("/format:detailed", "/noprompt");
+    const { stdout } = await this.run(args);
+    return parseLabels(stdout);
+  }
+
+  // --- Shelvesets ---
+
+  async shelve(name: string, comment: string, files?: string[], options: { move?: boolean; replace?: boolean } = {}): Promise<void> {
+    const args = ["shelve", name];
+    if (files && files.length > 0) {
+      args.push(...files);
+    } else {
+      args.push(".", "/recursive");
+    }
+    args.push(`/comment:${comment || ""}`);
+    // /move removes the pending changes from the workspace after shelving
+    if (options.move) args.push("/move");
+    if (options.replace) args.push("/replace");
+    args.push("/noprompt");
+    await this.run(args);
+  }
+
+  async unshelve(name: string, owner?: string): Promise<void> {
+    await this.run(["unshelve", shelvesetSpec(name, owner), "/noprompt"]);
+  }
+
+  async deleteShelveset(name: string, owner?: string): Promise<void> {
+    await this.run(["shelve", "/delete", shelvesetSpec(name, owner), "/noprompt"]);
+  }
+
+  // owner: undefined = current user, "*" = everyone
+  async shelvesets(owner?: string): Promise<TFShelveset[]> {
+    const args = ["shelvesets", "/format:detailed"];
+    if (owner) args.push(`/owner:${owner}`);
+    args.push("/noprompt");
+    const { stdout } = await this.run(args);
+    return parseShelvesets(stdout);
+  }
+
+  async shelvedChanges(name: string, owner?: string): Promise<TFShelvedChange[]> {
+    const args = ["status", `/shelveset:${shelvesetSpec(name, owner)}`, "/recursive", "/noprompt"];
+    const xml = await this.runXml(args, parseShelvedChangesXml);
+    if (xml) return xml;
+    const { stdout } = await this.run([...args, "/format:detailed"]);
+    return parseShelvedChanges(stdout);
+  }
+
+  // Content of a file as stored in a shelveset
+  async viewShelved(file: string, name: string, owner?: string): Promise<string> {
+    const { stdout } = await this.run(["view", file, `/shelveset:${shelvesetSpec(name, owner)}`, "/noprompt"]);
+    return stdout;
+  }
+}
+
+export function workItemMentions(comment: string): number[] {
+  return [...(comment || "").matchAll(/(?:^|[^\w&])#(\d+)\b/g)].map(m => Number(m[1]));
 }
 
-// --- Parsers (basic, adjust for your server locale/format) ---
+function shelvesetSpec(name: string, owner?: string): string {
+  return owner ? `${name};${owner}` : name;
+}
+
+// Every option this class passes; only these are rewritten for the cross-platform client,
+// so a POSIX path like "/tmp" is never mistaken for one
+const TF_OPTIONS = new Set([
+  "associate", "auto", "candidate", "changeset", "cloak", "collection", "comment", "decloak", "delete", "format",
+  "location", "lock", "login", "map", "move", "new", "noprompt", "notes", "owner", "preview", "recursive", "replace",
+  "shelveset", "stopafter", "unmap", "user", "version", "workspace"
+]);
+
+// Commands that only read the workspace or the server; see isReadOnly
+const READ_COMMANDS = new Set(["branches", "changeset", "dir", "history", "labels", "shelvesets", "status", "view", "workspaces"]);
+
+// Whether a command may run next to others on the same workspace. Merge and resolve only read
+// when previewing; workfold only reads without a mapping option.
+function isReadOnly(args: string[]): boolean {
+  const [command, ...rest] = args;
+  const options = rest.map(a => a.toLowerCase());
+  if (READ_COMMANDS.has(command)) return true;
+  if (command === "merge") return options.includes("/candidate");
+  if (command === "resolve") return options.includes("/preview");
+  if (command === "workfold") return !options.some(o => /^\/(map|unmap|cloak|decloak)$/.test(o));
+  return false;
+}
+
+// Windows drive paths (C:\...) and POSIX absolute paths (/home/...); server paths start with "$/"
+function isLocalPath(p: string): boolean {
+  return /^([A-Za-z]:[\\/]|\/)/.test(p);
+}
+
+// --- Text parsers (fallback for clients without /format:xml; English output only) ---
 
 function parseBranches(stdout: string): string[] {
   // Very loose parser; improve to match your tf output
@@ -502,21 +924,42 @@ function parsePendingDetailed(stdout: string): TFPendingItem[] {
   const lines = stdout.split(/\r?\n/);
   const items: TFPendingItem[] = [];
   let currentPath: string | null = null;
+  let currentUser: string | undefined;
+  let currentLock: TFLockType | undefined;
 
   for (const raw of lines) {
     const line = raw.trim();
     if (!line) continue;
 
     // Start of an item block is typically a path line
-    if (/^(\$\/|[A-Za-z]:\\)/.test(line)) {
+    if (/^\$\//.test(line) || isLocalPath(line)) {
       currentPath = line;
+      currentUser = undefined;
+      currentLock = undefined;
+      continue;
+    }
+
+    // User and Lock precede the Change line within a block
+    const userMatch = line.match(/^user\s*:\s*(.+)$/i);
+    if (userMatch && currentPath) {
+      currentUser = userMatch[1].trim();
+      continue;
+    }
+    const lockMatch = line.match(/^lock\s*:\s*(none|checkin|checkout)\b/i);
+    if (lockMatch && currentPath) {
+      currentLock = lockMatch[1].toLowerCase() as TFLockType;
       continue;
     }
 
     // Capture change line for current item
-    const changeMatch = line.match(/^change:\s*(add|edit|delete|rename|merge|branch)\b/i);
+    const changeMatch = line.match(/^change\s*:\s*(add|edit|delete|rename|merge|branch)\b(.*)$/i);
     if (changeMatch && currentPath) {
-      items.push({ action: changeMatch[1].toLowerCase() as TFPendingItem["action"], file: currentPath });
+      const item: TFPendingItem = { action: changeMatch[1].toLowerCase() as TFPendingItem["action"], file: currentPath };
+      if (currentUser) item.user = currentUser;
+      // "edit, lock" without a Lock line means a check-out lock
+      const lock = currentLock ?? (/\block\b/i.test(changeMatch[2]) ? "checkout" : undefined);
+      if (lock) item.lock = lock;
+      items.push(item);
       currentPath = null;
       continue;
     }
@@ -546,10 +989,15 @@ function parsePending(stdout: string): TFPendingItem[] {
   const tryParseRow = (row: string): TFPendingItem | null => {
     const trimmed = row.trim();
 
-    // 3-column table: Name  Change  Local path (tolerate 1+ spaces before Change, 2+ before Local path)
-    let table = trimmed.match(/^(.+?)\s{2,}([A-Za-z, ]+?)\s{2,}(.+)$/);
+    // 3-column table: Name  Change  Local path (tolerate 1+ spaces before Change, 2+ before Local path);
+    // Change starts with a letter, so padding can't pass for it
+    let table = trimmed.match(/^(.+?)\s{2,}([A-Za-z][A-Za-z, ]*?)\s{2,}(.+)$/);
+    // Columns sized to their content leave a single space after a full Change column ("edit, lock C:\...")
     if (!table) {
-      table = trimmed.match(/^(.+?)\s{1,}([A-Za-z, ]+?)\s{2,}(.+)$/);
+      table = trimmed.match(/^(.+?)\s{2,}([A-Za-z][A-Za-z, ]*?)\s((?:[A-Za-z]:\\|\/).+)$/);
+    }
+    if (!table) {
+      table = trimmed.match(/^(.+?)\s{1,}([A-Za-z][A-Za-z, ]*?)\s{2,}(.+)$/);
     }
     if (table) {
       const nameCol = table[1].trim();
@@ -559,7 +1007,7 @@ function parsePending(stdout: string): TFPendingItem[] {
       const actionMatch = changeCol.match(/\b(add|edit|delete|rename|merge|branch)\b/i);
       const action = (actionMatch ? actionMatch[1] : "edit").toLowerCase() as TFPendingItem["action"];
 
-      const file = /^[A-Za-z]:\\/.test(localCol)
+      const file = isLocalPath(localCol)
         ? localCol
         : currentServerFolder
           ? `${currentServerFolder.replace(/\\/g, "/")}/${nameCol}`
@@ -575,7 +1023,7 @@ function parsePending(stdout: string): TFPendingItem[] {
     m = trimmed.match(/^(\$\/.*?);\s*(add|edit|delete|rename|merge|branch)\s*$/i);
     if (m) return { action: m[2].toLowerCase() as TFPendingItem["action"], file: m[1].trim() };
 
-    m = trimmed.match(/^(.:\\[^-]+?)\s*-\s+(add|edit|delete|rename|merge|branch)\s*$/i);
+    m = trimmed.match(/^((?:.:\\|\/)[^-]+?)\s*-\s+(add|edit|delete|rename|merge|branch)\s*$/i);
     if (m) return { action: m[2].toLowerCase() as TFPendingItem["action"], file: m[1].trim() };
 
     return null;
@@ -598,15 +1046,15 @@ function parsePending(stdout: string): TFPendingItem[] {
       continue;
     }
 
-    // Heuristic: single name fragment line (e.g., 'PigButcherBossContro...')
-    if (!/\s{2,}/.test(line) && /\.(cs|asset|mat|png|jpg|prefab|meta)$/i.test(line.replace(/\.\.\.$/, ""))) {
+    // Heuristic: single name fragment line of a wrapped row (e.g., 'PigButcherBossController.cs')
+    if (!/\s{2,}/.test(line) && !/^(?:[A-Za-z]:\\|\/)/.test(line) && /\.[A-Za-z0-9]{1,10}$/.test(line.replace(/\.\.\.$/, ""))) {
       pendingNameFragment = line;
       continue;
     }
 
-    // If we have a pending name and this line has 'ACTION   C:\path', pair them
+    // If we have a pending name and this line has 'ACTION   C:\path' (or '/path'), pair them
     if (pendingNameFragment) {
-      const m = line.match(/\b(add|edit|delete|rename|merge|branch)\b\s+([A-Za-z]:\\.+)$/i);
+      const m = line.match(/\b(add|edit|delete|rename|merge|branch)\b\s+((?:[A-Za-z]:\\|\/).+)$/i);
       if (m) {
         items.push({ action: m[1].toLowerCase() as TFPendingItem["action"], file: m[2].trim() });
         pendingNameFragment = null;
@@ -673,3 +1121,242 @@ function parseHistory(stdout: string): TFHistoryItem[] {
   }
   return items;
 }
+
+function parseWorkItems(stdout: string): TFWorkItemRef[] {
+  // "Work Items:" section: a table of "ID  Type  State  Assigned To  Title" rows
+  const section = stdout.split(/^\s*Work Items:\s*$/mi)[1];
+  if (!section) return [];
+  const items: TFWorkItemRef[] = [];
+  for (const raw of section.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (/^[A-Za-z-]+(\s[A-Za-z-]+)*:$/.test(line)) break; // next section, e.g. "Check-in Notes:"
+    const m = line.match(/^(\d+)\s+(.+)$/);
+    if (m) items.push({ id: Number(m[1]), title: m[2].split(/\s{2,}/).pop()?.trim() });
+  }
+  return items;
+}
+
+function parseShelvesets(stdout: string): TFShelveset[] {
+  // /format:detailed prints one block per shelveset starting with "Shelveset:"
+  const blocks = stdout.split(/^(?=\s*Shelveset:)/mi).map(b => b.trim()).filter(b => /^Shelveset:/i.test(b));
+  return blocks.map(b => {
+    const nameMatch = b.match(/^\s*Shelveset:\s*(.+)$/mi);
+    const ownerMatch = b.match(/^\s*Owner:\s*(.+)$/mi);
+    const dateMatch = b.match(/^\s*Date:\s*(.+)$/mi);
+    const commMatch = b.match(/^\s*Comment:\s*([\s\S]*?)(?:^\s*(?:Check-in Notes|Policy Warnings?):|^={5,}|$(?![\s\S]))/mi);
+    return {
+      name: (nameMatch?.[1] || "").trim(),
+      owner: (ownerMatch?.[1] || "").trim(),
+      date: new Date((dateMatch?.[1] || "").trim()),
+      comment: (commMatch?.[1] || "").replace(/^={5,}.*$/gm, "").trim()
+    };
+  });
+}
+
+function parseLabels(stdout: string): TFLabel[] {
+  // /format:detailed prints one block per label starting with "Label"
+  const blocks = stdout.split(/^(?=\s*Label\s*:)/mi).map(b => b.trim()).filter(b => /^Label\s*:/i.test(b));
+  return blocks.map(b => {
+    const nameMatch = b.match(/^\s*Label\s*:\s*(.+)$/mi);
+    const scopeMatch = b.match(/^\s*Scope\s*:\s*(.+)$/mi);
+    const ownerMatch = b.match(/^\s*Owner\s*:\s*(.+)$/mi);
+    const dateMatch = b.match(/^\s*Date\s*:\s*(.+)$/mi);
+    const commMatch = b.match(/^\s*Comment\s*:\s*([\s\S]*?)(?:^\s*Changeset\s|^\s*Item\s|^-{5,}|$(?![\s\S]))/mi);
+    return {
+      name: (nameMatch?.[1] || "").trim(),
+      owner: (ownerMatch?.[1] || "").trim(),
+      date: new Date((dateMatch?.[1] || "").trim()),
+      comment: (commMatch?.[1] || "").trim(),
+      scope: scopeMatch?.[1].trim()
+    };
+  });
+}
+
+function parseWorkspaces(stdout: string): TFWorkspace[] {
+  // /format:detailed prints one block per workspace, separated by "=====" lines, ending with its working folders
+  const blocks = stdout.split(/^\s*={5,}\s*$/m).map(b => b.trim()).filter(b => /^Workspace\s*:/mi.test(b));
+  return blocks.map(b => {
+    const field = (name: string) => (b.match(new RegExp(`^\\s*${name}\\s*:[ \\t]*(.*)$`, "mi"))?.[1] || "").trim();
+    const location = field("Location").toLowerCase();
+    const mappings: TFMapping[] = [];
+    const folders = b.split(/^\s*Working folders\s*:\s*$/mi)[1] || "";
+    for (const raw of folders.split(/\r?\n/)) {
+      const m = raw.trim().match(/^(\(cloaked\)\s*)?(\$\/[^:]*):\s*(.*)$/i);
+      if (!m) continue;
+      mappings.push({ serverPath: m[2].trim(), localPath: m[3].trim() || undefined, cloaked: !!m[1] });
+    }
+    return {
+      name: field("Workspace"),
+      owner: field("Owner"),
+      computer: field("Computer"),
+      comment: field("Comment"),
+      location: location === "local" || location === "server" ? location : undefined,
+      mappings
+    };
+  });
+}
+
+function parseShelvedChanges(stdout: string): TFShelvedChange[] {
+  // Same block layout as parsePendingDetailed, plus an optional "Version" line per item
+  const items: TFShelvedChange[] = [];
+  let current: TFShelvedChange | null = null;
+
+  for (const raw of stdout.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (/^\$\//.test(line)) {
+      if (current) items.push(current);
+      current = { file: line.replace(/;C?\d+$/i, ""), action: "unknown" };
+      continue;
+    }
+    if (!current) continue;
+
+    const changeMatch = line.match(/^change\s*:\s*(add|edit|delete|rename|merge|branch)\b/i);
+    if (changeMatch) {
+      current.action = changeMatch[1].toLowerCase() as TFPendingItem["action"];
+      continue;
+    }
+    const versionMatch = line.match(/^version\s*:\s*C?(\d+)/i);
+    if (versionMatch) {
+      current.baseVersion = Number(versionMatch[1]);
+    }
+  }
+  if (current) items.push(current);
+
+  return items.filter(i => i.action !== "unknown");
+}
+
+function parseMergeCandidates(stdout: string): TFHistoryItem[] {
+  // Table rows: "1234      DOMAIN\user        6/4/2012"; author may contain spaces, date is the last column
+  const items: TFHistoryItem[] = [];
+  for (const raw of stdout.split(/\r?\n/)) {
+    const m = raw.trim().match(/^(\d+)\*?\s+(.+?)\s{2,}(\S+)$/) || raw.trim().match(/^(\d+)\*?\s+(.+?)\s+(\S+)$/);
+    if (!m) continue;
+    items.push({
+      changesetId: Number(m[1]),
+      author: m[2].trim(),
+      date: new Date(m[3]),
+      comment: "",
+      files: []
+    });
+  }
+  return items;
+}
+
+function parseConflicts(stdout: string): { file: string; description: string; kind: TFConflict["kind"] }[] {
+  // tf resolve /preview prints one "<path>: <description>" line per conflict
+  const items: { file: string; description: string; kind: TFConflict["kind"] }[] = [];
+  for (const raw of stdout.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || /no conflicts/i.test(line)) continue;
+    const m = line.match(/^((?:[A-Za-z]:)?[^:]+):\s+(.+)$/);
+    if (!m || !/^(\$\/|[A-Za-z]:\\|\/)/.test(m[1])) continue;
+    const description = m[2].trim();
+    const kind = /source|merge|branch/i.test(description) ? "merge" : "version";
+    items.push({ file: m[1].trim(), description, kind });
+  }
+  return items;
+}
+
+// --- XML parsers (/format:xml) ---
+// These read element and attribute names only, never display text
+
+const XML_ACTIONS: Record<string, TFPendingItem["action"]> = {
+  add: "add", branch: "add", undelete: "add", edit: "edit", delete: "delete", rename: "rename", merge: "merge"
+};
+
+// Change types are flag lists like "Add, Edit, Encoding" or "merge edit"; the first known one wins, as in the text output
+function xmlAction(changeType: string | undefined): TFPendingItem["action"] {
+  for (const part of (changeType || "").toLowerCase().split(/[\s,]+/)) {
+    if (XML_ACTIONS[part]) return XML_ACTIONS[part];
+  }
+  return "unknown";
+}
+
+function xmlLock(change: XmlElement): TFLockType | undefined {
+  const lock = attribute(change, "lock")?.toLowerCase();
+  if (lock === "checkin" || lock === "checkout") return lock;
+  // "Edit, Lock" without a lock attribute means a check-out lock
+  return !lock && /\block\b/i.test(attribute(change, "chg", "changeType") || "") ? "checkout" : undefined;
+}
+
+function parsePendingXml(root: XmlElement): TFPendingItem[] {
+  // <PendingSets><PendingSet owner=... ownerdisp=...><PendingChanges><PendingChange chg=... local=... server=... lock=.../>
+  const items: TFPendingItem[] = [];
+  const visit = (el: XmlElement, user?: string) => {
+    const name = el.name.toLowerCase();
+    if (name === "pendingset") {
+      user = attribute(el, "ownerdisp", "ownerDisplayName", "owner") || user;
+    } else if (name === "pendingchange") {
+      const file = attribute(el, "local", "localItem") || attribute(el, "server", "serverItem", "item");
+      if (file) {
+        const item: TFPendingItem = { action: xmlAction(attribute(el, "chg", "changeType")), file };
+        if (user) item.user = user;
+        const lock = xmlLock(el);
+        if (lock) item.lock = lock;
+        items.push(item);
+      }
+    }
+    el.children.forEach(child => visit(child, user));
+  };
+  visit(root);
+  return items;
+}
+
+function parseShelvedChangesXml(root: XmlElement): TFShelvedChange[] {
+  return descendants(root, "PendingChange")
+    .map(el => {
+      const change: TFShelvedChange = {
+        file: (attribute(el, "server", "serverItem", "item") || "").replace(/;C?\d+$/i, ""),
+        action: xmlAction(attribute(el, "chg", "changeType"))
+      };
+      const version = Number(attribute(el, "ver", "version"));
+      if (version > 0) change.baseVersion = version;
+      return change;
+    })
+    .filter(c => c.file && c.action !== "unknown");
+}
+
+function parseHistoryXml(root: XmlElement): TFHistoryItem[] {
+  // <history><changeset id=... owner=... committer=... date=...><comment/><item change-type=... server-item=.../>
+  const items: TFHistoryItem[] = [];
+  for (const cs of descendants(root, "changeset")) {
+    const id = Number(attribute(cs, "id", "changesetId"));
+    if (!id) continue;
+    const workItems = descendants(cs, "workitem")
+      .map(wi => ({ id: Number(attribute(wi, "id")), title: attribute(wi, "title") }))
+      .filter(wi => wi.id > 0);
+    const item: TFHistoryItem = {
+      changesetId: id,
+      author: attribute(cs, "ownerdisp", "ownerDisplayName", "owner", "committer") || "",
+      // ISO 8601, unlike the locale-formatted date of the text output
+      date: new Date(attribute(cs, "date", "creationDate") || ""),
+      comment: (childText(cs, "comment") ?? attribute(cs, "comment") ?? "").trim(),
+      files: descendants(cs, "item")
+        .map(it => ({
+          path: attribute(it, "serverItem", "server", "path") || "",
+          // First flag only ("add, encoding" → "add"), like the text output
+          change: (attribute(it, "changeType", "chg", "change") || "").toLowerCase().split(/[\s,]+/)[0]
+        }))
+        .filter(f => f.path)
+    };
+    if (workItems.length > 0) item.workItems = workItems;
+    items.push(item);
+  }
+  return items;
+}
+
+function parseBranchesXml(root: XmlElement): string[] {
+  // Every element naming a server item ($/...) is a branch in the hierarchy
+  const paths = new Set<string>();
+  for (const el of [root, ...allElements(root)]) {
+    const value = attribute(el, "serverItem", "server", "item", "path", "name") ?? el.text.trim();
+    if (value.startsWith("$/")) paths.add(value);
+  }
+  return [...paths];
+}
+
+function allElements(root: XmlElement): XmlElement[] {
+  return root.children.flatMap(child => [child, ...allElements(child)]);
+}
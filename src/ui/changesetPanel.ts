@@ -1,17 +1,35 @@
 import * as vscode from "vscode";
-import { TFVC, TFHistoryItem } from "../tfvc";
+import { TFVC, TFHistoryItem, TFLockType, workItemMentions } from "../tfvc";
+import { TfvcBackend } from "../backend";
+import { toTfvcUri } from "../providers/contentProvider";
+import { escapeHtml, panelStyles } from "./styles";
 import * as path from "path";
 import * as fs from "fs";
 
+// Posted by the panel's buttons: the action and the server path (or work item id) it applies to
+interface PanelMessage {
+  type: string;
+  file: string;
+}
+
 export class ChangesetPanel {
   static current: ChangesetPanel | undefined;
 
-  static async show(tfvc: TFVC, id: number) {
-    const item = await tfvc.changeset(id);
+  // onPended: called after the panel pended a change (a revert checks the file out)
+  static async show(tfvc: TFVC, backend: TfvcBackend, id: number, onPended: () => void) {
+    const item = await backend.changeset(id);
     if (!item) {
       vscode.window.showWarningMessage(`Changeset ${id} not found.`);
       return;
     }
+    // Explicit associations, falling back to "#1234" mentions in the comment
+    // (the REST backend returns them with the changeset)
+    const associated = item.workItems ?? await tfvc.changesetWorkItems(id).catch(() => []);
+    const mentioned = workItemMentions(item.comment)
+      .filter(wi => !associated.some(a => a.id === wi))
+      .map(wi => ({ id: wi }));
+    item.workItems = [...associated, ...mentioned];
+
     const panel = vscode.window.createWebviewPanel(
       "vstfsChangeset",
       `Changeset C${id}`,
@@ -21,58 +39,76 @@ export class ChangesetPanel {
         retainContextWhenHidden: true
       }
     );
-    const instance = new ChangesetPanel(panel, tfvc, item);
+    const instance = new ChangesetPanel(panel, tfvc, item, onPended);
     ChangesetPanel.current = instance;
   }
 
-  private constructor(private panel: vscode.WebviewPanel, private tfvc: TFVC, private item: TFHistoryItem) {
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private tfvc: TFVC,
+    private item: TFHistoryItem,
+    private onPended: () => void
+  ) {
     this.render();
     this.panel.webview.onDidReceiveMessage(async (msg) => {
-      if (msg.type === "openFileAtVersion") {
-        const serverPath = msg.file as string;
-        const temp = await this.tfvc.getFileAtChangeset(serverPath, this.item.changesetId);
-        vscode.window.showTextDocument(vscode.Uri.file(temp), { preview: true });
-      } else if (msg.type === "diffWithPrevious") {
-        const serverPath = msg.file as string;
-        const prevId = await this.tfvc.getPreviousChangesetIdForFile(serverPath, this.item.changesetId);
-        if (!prevId) {
-          vscode.window.showWarningMessage(`No previous version found for ${path.basename(serverPath)} before C${this.item.changesetId}.`);
-          return;
-        }
-        const prevTemp = await this.tfvc.getFileAtChangeset(serverPath, prevId);
-        const thisTemp = await this.tfvc.getFileAtChangeset(serverPath, this.item.changesetId);
-        vscode.commands.executeCommand(
-          "vscode.diff",
-          vscode.Uri.file(prevTemp),
-          vscode.Uri.file(thisTemp),
-          `C${prevId} ↔ C${this.item.changesetId}: ${path.basename(serverPath)}`
-        );
-      } else if (msg.type === "diffWithWorkspaceLatest") {
-        const serverPath = msg.file as string;
-        const workingLocal = this.tfvc.toLocalPath(serverPath);
-        const temp = await this.tfvc.getFileAtChangeset(serverPath, this.item.changesetId);
+      try {
+        await this.handle(msg);
+      } catch (e: any) {
+        vscode.window.showErrorMessage(`TFVC: ${e?.message || e}`);
+      }
+    });
+  }
 
-        if (!fs.existsSync(workingLocal)) {
-          vscode.window.showWarningMessage(`Working file not found: ${workingLocal}. Showing file from C${this.item.changesetId} only.`);
-          vscode.window.showTextDocument(vscode.Uri.file(temp), { preview: true });
-          return;
-        }
+  private async handle(msg: PanelMessage) {
+    if (msg.type === "openFileAtVersion") {
+      const serverPath = msg.file;
+      const version = toTfvcUri(serverPath, `C${this.item.changesetId}`);
+      vscode.window.showTextDocument(version, { preview: true });
+    } else if (msg.type === "diffWithPrevious") {
+      const serverPath = msg.file;
+      const prevId = await this.tfvc.getPreviousChangesetIdForFile(serverPath, this.item.changesetId);
+      if (!prevId) {
+        vscode.window.showWarningMessage(`No previous version found for ${path.basename(serverPath)} before C${this.item.changesetId}.`);
+        return;
+      }
+      vscode.commands.executeCommand(
+        "vscode.diff",
+        toTfvcUri(serverPath, `C${prevId}`),
+        toTfvcUri(serverPath, `C${this.item.changesetId}`),
+        `C${prevId} ↔ C${this.item.changesetId}: ${path.basename(serverPath)}`
+      );
+    } else if (msg.type === "diffWithWorkspaceLatest") {
+      const serverPath = msg.file;
+      const workingLocal = this.tfvc.toLocalPath(serverPath);
+      const version = toTfvcUri(serverPath, `C${this.item.changesetId}`);
 
-        vscode.commands.executeCommand(
-          "vscode.diff",
-          vscode.Uri.file(temp),
-          vscode.Uri.file(workingLocal),
-          `C${this.item.changesetId} ↔ Working: ${path.basename(workingLocal)}`
-        );
-      } else if (msg.type === "revertFileToChangeset") {
-        const serverPath = msg.file as string;
-        // Minimal revert: fetch file at version and overwrite working copy
-        const temp = await this.tfvc.getFileAtChangeset(serverPath, this.item.changesetId);
-        const workingLocal = this.tfvc.toLocalPath(serverPath);
-        await vscode.workspace.fs.copy(vscode.Uri.file(temp), vscode.Uri.file(workingLocal), { overwrite: true });
-        vscode.window.showInformationMessage(`Reverted ${path.basename(workingLocal)} to C${this.item.changesetId}. Remember to Check In.`);
+      if (!fs.existsSync(workingLocal)) {
+        vscode.window.showWarningMessage(`Working file not found: ${workingLocal}. Showing file from C${this.item.changesetId} only.`);
+        vscode.window.showTextDocument(version, { preview: true });
+        return;
       }
-    });
+
+      vscode.commands.executeCommand(
+        "vscode.diff",
+        version,
+        vscode.Uri.file(workingLocal),
+        `C${this.item.changesetId} ↔ Working: ${path.basename(workingLocal)}`
+      );
+    } else if (msg.type === "openWorkItem") {
+      const url = this.tfvc.workItemUrl(Number(msg.file));
+      if (url) vscode.env.openExternal(vscode.Uri.parse(url));
+    } else if (msg.type === "revertFileToChangeset") {
+      const serverPath = msg.file;
+      const workingLocal = this.tfvc.toLocalPath(serverPath);
+      // Server workspaces keep the file read-only until it's checked out
+      if (fs.existsSync(workingLocal)) {
+        await this.tfvc.checkout([workingLocal], vscode.workspace.getConfiguration("vstfs").get<TFLockType>("checkoutLock", "none"));
+        this.onPended();
+      }
+      // tf writes the stored bytes, so binaries, encodings and BOMs come back unchanged
+      await this.tfvc.download(serverPath, `C${this.item.changesetId}`, workingLocal);
+      vscode.window.showInformationMessage(`Reverted ${path.basename(workingLocal)} to C${this.item.changesetId}. Remember to Check In.`);
+    }
   }
 
   private render() {
@@ -97,6 +133,12 @@ export class ChangesetPanel {
       </tr>
     `).join("");
 
+    const workItems = (this.item.workItems || []).map(wi => `
+      <button class="btn btn-secondary" data-action="openWorkItem" data-file="${wi.id}" title="${escapeHtml(wi.title || "")}">
+        #${wi.id}${wi.title ? ` ${escapeHtml(wi.title)}` : ""}
+      </button>
+    `).join("");
+
     this.panel.webview.html = `
       <!DOCTYPE html>
       <html lang="en">
@@ -105,142 +147,13 @@ export class ChangesetPanel {
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
         <title>Changeset C${this.item.changesetId}</title>
         <style>
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-            margin: 0;
-            padding: 20px;
-            background: var(--vscode-editor-background);
-            color: var(--vscode-editor-foreground);
-          }
-          .header {
-            background: var(--vscode-panel-background);
-            border: 1px solid var(--vscode-panel-border);
-            border-radius: 6px;
-            padding: 20px;
-            margin-bottom: 20px;
-          }
-          .header h2 {
-            margin: 0 0 15px 0;
-            color: var(--vscode-editor-foreground);
-            font-size: 24px;
-          }
-          .header-info {
-            display: grid;
-            grid-template-columns: 1fr 1fr;
-            gap: 15px;
-          }
-          .info-item {
+          ${panelStyles}
+          .work-items {
             display: flex;
+            flex-wrap: wrap;
             align-items: center;
             gap: 8px;
-          }
-          .info-label {
-            font-weight: 600;
-            color: var(--vscode-descriptionForeground);
-            min-width: 80px;
-          }
-          .info-value {
-            color: var(--vscode-editor-foreground);
-          }
-          .comment-box {
-            background: var(--vscode-input-background);
-            border: 1px solid var(--vscode-input-border);
-            border-radius: 4px;
-            padding: 12px;
             margin-top: 15px;
-            white-space: pre-wrap;
-            font-family: inherit;
-            color: var(--vscode-input-foreground);
-          }
-          .files-table {
-            width: 100%;
-            border-collapse: collapse;
-            background: var(--vscode-panel-background);
-            border: 1px solid var(--vscode-panel-border);
-            border-radius: 6px;
-            overflow: hidden;
-          }
-          .files-table th {
-            background: var(--vscode-panel-border);
-            padding: 12px;
-            text-align: left;
-            font-weight: 600;
-            color: var(--vscode-editor-foreground);
-            border-bottom: 1px solid var(--vscode-panel-border);
-          }
-          .files-table td {
-            padding: 12px;
-            border-bottom: 1px solid var(--vscode-panel-border);
-            vertical-align: middle;
-          }
-          .file-row:hover {
-            background: var(--vscode-list-hoverBackground);
-          }
-          .change-type {
-            font-weight: 600;
-            text-align: center;
-            min-width: 80px;
-          }
-          .change-type.add { color: #28a745; }
-          .change-type.edit { color: #007bff; }
-          .change-type.delete { color: #dc3545; }
-          .change-type.rename { color: #ffc107; }
-          .change-type.merge { color: #6f42c1; }
-          .file-path {
-            font-family: 'Consolas', 'Monaco', monospace;
-            font-size: 13px;
-            color: var(--vscode-editor-foreground);
-          }
-          .actions {
-            display: flex;
-            gap: 8px;
-            flex-wrap: wrap;
-          }
-          .btn {
-            border: none;
-            border-radius: 4px;
-            padding: 6px 12px;
-            font-size: 12px;
-            cursor: pointer;
-            display: flex;
-            align-items: center;
-            gap: 4px;
-            transition: all 0.2s;
-            font-family: inherit;
-          }
-          .btn:hover {
-            transform: translateY(-1px);
-            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
-          }
-          .btn-primary {
-            background: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-          }
-          .btn-primary:hover {
-            background: var(--vscode-button-hoverBackground);
-          }
-          .btn-secondary {
-            background: var(--vscode-button-secondaryBackground);
-            color: var(--vscode-button-secondaryForeground);
-          }
-          .btn-secondary:hover {
-            background: var(--vscode-button-secondaryHoverBackground);
-          }
-          .btn-warning {
-            background: #ffc107;
-            color: #212529;
-          }
-          .btn-warning:hover {
-            background: #e0a800;
-          }
-          .icon {
-            font-size: 14px;
-          }
-          .no-files {
-            text-align: center;
-            padding: 40px;
-            color: var(--vscode-descriptionForeground);
-            font-style: italic;
           }
         </style>
       </head>
@@ -266,6 +179,7 @@ export class ChangesetPanel {
             </div>
           </div>
           ${this.item.comment ? `<div class="comment-box">${escapeHtml(this.item.comment)}</div>` : ''}
+          ${workItems ? `<div class="work-items"><span class="info-label">Work Items:</span>${workItems}</div>` : ''}
         </div>
         
         <table class="files-table">
@@ -308,7 +222,3 @@ export class ChangesetPanel {
     `;
   }
 }
-
-function escapeHtml(s: string) {
-  return s.replace(/[&<>"']/g, ch => ({ "&":"&amp;", "<":"&lt;", ">":"&gt;", "\"":"&quot;", "'":"&#39;" }[ch]!));
-}
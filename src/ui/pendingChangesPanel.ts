@@ -0,0 +1,319 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { TFPendingItem } from "../tfvc";
+import { TfvcSourceControl } from "../providers/sourceControl";
+import { panelStyles } from "./styles";
+
+export interface CheckInRequest {
+  comment: string;
+  workItems: number[];
+  notes: Record<string, string>;
+}
+
+// Standard TFVC check-in note fields
+const NOTE_FIELDS = ["Code Reviewer", "Security Reviewer", "Performance Reviewer"];
+
+// Team Explorer-style check-in page. Included / Excluded are shared with the SCM view,
+// and the comment survives hiding the panel, so a mis-click doesn't lose anything.
+// Each workspace folder has a panel of its own.
+export class PendingChangesPanel {
+  private static panels = new Map<TfvcSourceControl, PendingChangesPanel>();
+
+  static show(scm: TfvcSourceControl, onCheckIn: (req: CheckInRequest) => Promise<boolean>) {
+    const existing = PendingChangesPanel.panels.get(scm);
+    if (existing) {
+      existing.onCheckIn = onCheckIn;
+      existing.panel.reveal();
+      return;
+    }
+    const folderName = (vscode.workspace.workspaceFolders?.length ?? 0) > 1 && scm.sourceControl.rootUri
+      ? ` (${path.basename(scm.sourceControl.rootUri.fsPath)})`
+      : "";
+    const panel = vscode.window.createWebviewPanel(
+      "vstfsPendingChanges",
+      `Pending Changes${folderName}`,
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+    PendingChangesPanel.panels.set(scm, new PendingChangesPanel(panel, scm, onCheckIn));
+  }
+
+  private disposables: vscode.Disposable[] = [];
+  // Set while the panel is visible, so its Detected list follows every reload
+  private detectedWatch: vscode.Disposable | undefined;
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private scm: TfvcSourceControl,
+    private onCheckIn: (req: CheckInRequest) => Promise<boolean>
+  ) {
+    this.render();
+    this.detectedWatch = this.scm.watchDetected();
+    this.disposables.push(
+      this.scm.onDidChange(() => this.postLists()),
+      this.panel.onDidDispose(() => this.dispose()),
+      this.panel.onDidChangeViewState(e => {
+        this.detectedWatch?.dispose();
+        this.detectedWatch = e.webviewPanel.visible ? this.scm.watchDetected() : undefined;
+      }),
+      this.panel.webview.onDidReceiveMessage(async (msg) => {
+        if (msg.type === "ready") {
+          this.postLists();
+          void this.scm.refresh();
+        } else if (msg.type === "include") {
+          this.scm.include([{ resourceUri: vscode.Uri.file(msg.file) }]);
+        } else if (msg.type === "exclude") {
+          this.scm.exclude([{ resourceUri: vscode.Uri.file(msg.file) }]);
+        } else if (msg.type === "promote") {
+          vscode.commands.executeCommand("vstfs.scm.promote", { resourceUri: vscode.Uri.file(msg.file) });
+        } else if (msg.type === "diff") {
+          const uri = vscode.Uri.file(msg.file);
+          if (msg.action === "add" || msg.action === "delete") {
+            vscode.commands.executeCommand("vscode.open", uri);
+          } else {
+            vscode.commands.executeCommand("vstfs.diffFile", uri);
+          }
+        } else if (msg.type === "refresh") {
+          void this.scm.refresh();
+        } else if (msg.type === "checkIn") {
+          const ok = await this.onCheckIn({
+            comment: msg.comment || "",
+            workItems: String(msg.workItems || "").match(/\d+/g)?.map(Number) || [],
+            notes: msg.notes || {}
+          }).catch(() => false);
+          this.panel.webview.postMessage({ type: ok ? "checkedIn" : "checkInFailed" });
+        }
+      })
+    );
+  }
+
+  private postLists() {
+    const toRow = (p: TFPendingItem) => ({ file: p.file, action: p.action });
+    this.panel.webview.postMessage({
+      type: "update",
+      included: this.scm.includedChanges().map(toRow),
+      excluded: this.scm.excludedChanges().map(toRow),
+      detected: this.scm.detectedChanges().map(toRow)
+    });
+  }
+
+  private dispose() {
+    PendingChangesPanel.panels.delete(this.scm);
+    this.detectedWatch?.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+
+  private render() {
+    const notes = NOTE_FIELDS.map(name => `
+      <label class="note">
+        <span class="info-label">${name}:</span>
+        <input type="text" data-note="${name}" />
+      </label>
+    `).join("");
+
+    this.panel.webview.html = `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Pending Changes</title>
+        <style>
+          ${panelStyles}
+          textarea, input[type=text] {
+            width: 100%;
+            box-sizing: border-box;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 4px;
+            padding: 8px;
+            font-family: inherit;
+          }
+          textarea {
+            min-height: 80px;
+            resize: vertical;
+          }
+          .toolbar {
+            display: flex;
+            gap: 8px;
+            margin-top: 12px;
+          }
+          .section {
+            margin-bottom: 20px;
+          }
+          .section h3 {
+            margin: 0 0 8px 0;
+            font-size: 14px;
+          }
+          .drop-zone {
+            min-height: 40px;
+          }
+          .drop-zone.drag-over {
+            outline: 2px dashed var(--vscode-focusBorder);
+          }
+          .file-row[draggable=true] {
+            cursor: grab;
+          }
+          .note {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin-bottom: 6px;
+          }
+          .note .info-label {
+            min-width: 160px;
+          }
+          details summary {
+            cursor: pointer;
+            margin-bottom: 8px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h2>Pending Changes</h2>
+          <textarea id="comment" placeholder="Enter a check-in comment"></textarea>
+          <div class="note" style="margin-top: 8px;">
+            <span class="info-label">Work Items:</span>
+            <input type="text" id="workItems" placeholder="e.g. 1234, 5678 (or #1234 in the comment)" />
+          </div>
+          <details>
+            <summary>Check-in Notes</summary>
+            ${notes}
+          </details>
+          <div class="toolbar">
+            <button class="btn btn-primary" id="checkIn">
+              <span class="icon">⬆️</span> Check In
+            </button>
+            <button class="btn btn-secondary" id="refresh">
+              <span class="icon">🔄</span> Refresh
+            </button>
+          </div>
+        </div>
+
+        <div class="section">
+          <h3>Included Changes (<span id="includedCount">0</span>)</h3>
+          <table class="files-table">
+            <tbody class="drop-zone" id="included" data-list="included"></tbody>
+          </table>
+        </div>
+
+        <div class="section">
+          <h3>Excluded Changes (<span id="excludedCount">0</span>)</h3>
+          <table class="files-table">
+            <tbody class="drop-zone" id="excluded" data-list="excluded"></tbody>
+          </table>
+        </div>
+
+        <div class="section">
+          <h3>Detected Changes (<span id="detectedCount">0</span>)</h3>
+          <table class="files-table">
+            <tbody id="detected"></tbody>
+          </table>
+        </div>
+
+        <script>
+          const vscode = acquireVsCodeApi();
+          const checkInButton = document.getElementById("checkIn");
+
+          const escapeHtml = s => s.replace(/[&<>"']/g, ch => ({ "&":"&amp;", "<":"&lt;", ">":"&gt;", "\\"":"&quot;", "'":"&#39;" }[ch]));
+
+          function renderList(id, rows, moveAction, moveLabel, draggable = true) {
+            const body = document.getElementById(id);
+            document.getElementById(id + "Count").textContent = rows.length;
+            if (rows.length === 0) {
+              body.innerHTML = \`<tr><td colspan="3" class="no-files">\${draggable ? "Drag files here" : "No detected changes"}</td></tr>\`;
+              return;
+            }
+            body.innerHTML = rows.map(r => \`
+              <tr class="file-row" draggable="\${draggable}" data-file="\${encodeURIComponent(r.file)}">
+                <td class="change-type \${r.action}">\${r.action.toUpperCase()}</td>
+                <td class="file-path">\${escapeHtml(r.file)}</td>
+                <td class="actions">
+                  <button class="btn btn-secondary" data-action="diff" data-kind="\${r.action}" data-file="\${encodeURIComponent(r.file)}">
+                    <span class="icon">🔍</span> Diff
+                  </button>
+                  <button class="btn" data-action="\${moveAction}" data-file="\${encodeURIComponent(r.file)}">\${moveLabel}</button>
+                </td>
+              </tr>
+            \`).join("");
+          }
+
+          window.addEventListener("message", e => {
+            const msg = e.data;
+            if (msg.type === "update") {
+              renderList("included", msg.included, "exclude", "Exclude");
+              renderList("excluded", msg.excluded, "include", "Include");
+              renderList("detected", msg.detected, "promote", "Promote", false);
+            } else if (msg.type === "checkedIn") {
+              checkInButton.disabled = false;
+              document.getElementById("comment").value = "";
+              document.getElementById("workItems").value = "";
+              document.querySelectorAll("[data-note]").forEach(input => input.value = "");
+            } else if (msg.type === "checkInFailed") {
+              checkInButton.disabled = false;
+            }
+          });
+
+          document.body.addEventListener("click", e => {
+            const target = e.target.closest("button");
+            if (!target) return;
+            if (target.id === "checkIn") {
+              const notes = {};
+              document.querySelectorAll("[data-note]").forEach(input => notes[input.getAttribute("data-note")] = input.value);
+              checkInButton.disabled = true;
+              vscode.postMessage({
+                type: "checkIn",
+                comment: document.getElementById("comment").value,
+                workItems: document.getElementById("workItems").value,
+                notes
+              });
+              return;
+            }
+            if (target.id === "refresh") {
+              vscode.postMessage({ type: "refresh" });
+              return;
+            }
+            const action = target.getAttribute("data-action");
+            const file = decodeURIComponent(target.getAttribute("data-file") || "");
+            if (action && file) {
+              vscode.postMessage({ type: action, file, action: target.getAttribute("data-kind") });
+            }
+          });
+
+          // Drag rows between Included and Excluded
+          document.addEventListener("dragstart", e => {
+            const row = e.target.closest && e.target.closest(".file-row");
+            if (!row) return;
+            e.dataTransfer.setData("text/plain", decodeURIComponent(row.getAttribute("data-file")));
+            e.dataTransfer.setData("application/x-vstfs-from", row.parentElement.getAttribute("data-list"));
+          });
+          document.querySelectorAll(".drop-zone").forEach(zone => {
+            zone.addEventListener("dragover", e => {
+              e.preventDefault();
+              zone.classList.add("drag-over");
+            });
+            zone.addEventListener("dragleave", () => zone.classList.remove("drag-over"));
+            zone.addEventListener("drop", e => {
+              e.preventDefault();
+              zone.classList.remove("drag-over");
+              const file = e.dataTransfer.getData("text/plain");
+              const from = e.dataTransfer.getData("application/x-vstfs-from");
+              const to = zone.getAttribute("data-list");
+              if (file && from !== to) {
+                vscode.postMessage({ type: to === "included" ? "include" : "exclude", file });
+              }
+            });
+          });
+
+          vscode.postMessage({ type: "ready" });
+        </script>
+      </body>
+      </html>
+    `;
+  }
+}
@@ -0,0 +1,159 @@
+import * as vscode from "vscode";
+import { TFVC, TFShelveset, TFShelvedChange } from "../tfvc";
+import { LATEST_VERSION, toShelvedUri, toTfvcUri } from "../providers/contentProvider";
+import { escapeHtml, panelStyles } from "./styles";
+import * as path from "path";
+
+export class ShelvesetPanel {
+  static current: ShelvesetPanel | undefined;
+
+  static async show(tfvc: TFVC, shelveset: TFShelveset) {
+    const changes = await tfvc.shelvedChanges(shelveset.name, shelveset.owner);
+    const panel = vscode.window.createWebviewPanel(
+      "vstfsShelveset",
+      `Shelveset ${shelveset.name}`,
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+    const instance = new ShelvesetPanel(panel, shelveset, changes);
+    ShelvesetPanel.current = instance;
+  }
+
+  private constructor(private panel: vscode.WebviewPanel, private shelveset: TFShelveset, private changes: TFShelvedChange[]) {
+    this.render();
+    this.panel.webview.onDidReceiveMessage(async (msg) => {
+      if (msg.type === "openShelved") {
+        const change = this.find(msg.file);
+        if (!change) return;
+        vscode.window.showTextDocument(this.shelvedUri(change), { preview: true });
+      } else if (msg.type === "diffWithBase") {
+        const change = this.find(msg.file);
+        if (!change) return;
+        if (change.action === "add") {
+          vscode.window.showTextDocument(this.shelvedUri(change), { preview: true });
+          return;
+        }
+        // Fall back to latest when the client doesn't report the base version
+        const baseSpec = change.baseVersion ? `C${change.baseVersion}` : LATEST_VERSION;
+        vscode.commands.executeCommand(
+          "vscode.diff",
+          toTfvcUri(change.file, baseSpec),
+          this.shelvedUri(change),
+          `${baseSpec} ↔ ${this.shelveset.name}: ${path.basename(change.file)}`
+        );
+      } else if (msg.type === "unshelve") {
+        await vscode.commands.executeCommand("vstfs.unshelve", this.shelveset);
+      } else if (msg.type === "delete") {
+        await vscode.commands.executeCommand("vstfs.deleteShelveset", this.shelveset);
+      }
+    });
+  }
+
+  private find(file: string): TFShelvedChange | undefined {
+    return this.changes.find(c => c.file === file);
+  }
+
+  private shelvedUri(change: TFShelvedChange): vscode.Uri {
+    return toShelvedUri(change.file, this.shelveset.name, this.shelveset.owner);
+  }
+
+  private render() {
+    const filesRows = this.changes.map(c => `
+      <tr class="file-row">
+        <td class="change-type ${c.action}">${escapeHtml(c.action.toUpperCase())}</td>
+        <td class="file-path">${escapeHtml(c.file)}</td>
+        <td class="actions">
+          <button class="btn btn-primary" data-action="openShelved" data-file="${encodeURIComponent(c.file)}">
+            <span class="icon">📄</span> Open
+          </button>
+          <button class="btn btn-secondary" data-action="diffWithBase" data-file="${encodeURIComponent(c.file)}">
+            <span class="icon">🔍</span> Diff Base
+          </button>
+        </td>
+      </tr>
+    `).join("");
+
+    this.panel.webview.html = `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Shelveset ${escapeHtml(this.shelveset.name)}</title>
+        <style>
+          ${panelStyles}
+          .header-actions {
+            display: flex;
+            gap: 8px;
+            margin-top: 15px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h2>Shelveset ${escapeHtml(this.shelveset.name)}</h2>
+          <div class="header-info">
+            <div class="info-item">
+              <span class="info-label">Owner:</span>
+              <span class="info-value">${escapeHtml(this.shelveset.owner)}</span>
+            </div>
+            <div class="info-item">
+              <span class="info-label">Date:</span>
+              <span class="info-value">${this.shelveset.date.toLocaleString()}</span>
+            </div>
+            <div class="info-item">
+              <span class="info-label">Files:</span>
+              <span class="info-value">${this.changes.length}</span>
+            </div>
+            <div class="info-item">
+              <span class="info-label">Type:</span>
+              <span class="info-value">Shelveset</span>
+            </div>
+          </div>
+          ${this.shelveset.comment ? `<div class="comment-box">${escapeHtml(this.shelveset.comment)}</div>` : ''}
+          <div class="header-actions">
+            <button class="btn btn-primary" data-action="unshelve">
+              <span class="icon">📥</span> Unshelve
+            </button>
+            <button class="btn btn-warning" data-action="delete">
+              <span class="icon">🗑️</span> Delete
+            </button>
+          </div>
+        </div>
+
+        <table class="files-table">
+          <thead>
+            <tr>
+              <th>Change</th>
+              <th>File Path</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${this.changes.length > 0 ? filesRows : '<tr><td colspan="3" class="no-files">No files in this shelveset</td></tr>'}
+          </tbody>
+        </table>
+
+        <script>
+          const vscode = acquireVsCodeApi();
+
+          document.body.addEventListener("click", (e) => {
+            const target = e.target.closest("button");
+            if (!target) return;
+
+            const action = target.getAttribute("data-action");
+            const file = target.hasAttribute("data-file") ? decodeURIComponent(target.getAttribute("data-file")) : undefined;
+
+            if (action) {
+              vscode.postMessage({ type: action, file });
+            }
+          });
+        </script>
+      </body>
+      </html>
+    `;
+  }
+}
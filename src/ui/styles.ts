@@ -0,0 +1,144 @@
+// Shared look for the VSTFS webview panels (theme-aware via --vscode-* variables)
+export const panelStyles = `
+  body {
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    margin: 0;
+    padding: 20px;
+    background: var(--vscode-editor-background);
+    color: var(--vscode-editor-foreground);
+  }
+  .header {
+    background: var(--vscode-panel-background);
+    border: 1px solid var(--vscode-panel-border);
+    border-radius: 6px;
+    padding: 20px;
+    margin-bottom: 20px;
+  }
+  .header h2 {
+    margin: 0 0 15px 0;
+    color: var(--vscode-editor-foreground);
+    font-size: 24px;
+  }
+  .header-info {
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 15px;
+  }
+  .info-item {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+  }
+  .info-label {
+    font-weight: 600;
+    color: var(--vscode-descriptionForeground);
+    min-width: 80px;
+  }
+  .info-value {
+    color: var(--vscode-editor-foreground);
+  }
+  .comment-box {
+    background: var(--vscode-input-background);
+    border: 1px solid var(--vscode-input-border);
+    border-radius: 4px;
+    padding: 12px;
+    margin-top: 15px;
+    white-space: pre-wrap;
+    font-family: inherit;
+    color: var(--vscode-input-foreground);
+  }
+  .files-table {
+    width: 100%;
+    border-collapse: collapse;
+    background: var(--vscode-panel-background);
+    border: 1px solid var(--vscode-panel-border);
+    border-radius: 6px;
+    overflow: hidden;
+  }
+  .files-table th {
+    background: var(--vscode-panel-border);
+    padding: 12px;
+    text-align: left;
+    font-weight: 600;
+    color: var(--vscode-editor-foreground);
+    border-bottom: 1px solid var(--vscode-panel-border);
+  }
+  .files-table td {
+    padding: 12px;
+    border-bottom: 1px solid var(--vscode-panel-border);
+    vertical-align: middle;
+  }
+  .file-row:hover {
+    background: var(--vscode-list-hoverBackground);
+  }
+  .change-type {
+    font-weight: 600;
+    text-align: center;
+    min-width: 80px;
+  }
+  .change-type.add { color: #28a745; }
+  .change-type.edit { color: #007bff; }
+  .change-type.delete { color: #dc3545; }
+  .change-type.rename { color: #ffc107; }
+  .change-type.merge { color: #6f42c1; }
+  .file-path {
+    font-family: 'Consolas', 'Monaco', monospace;
+    font-size: 13px;
+    color: var(--vscode-editor-foreground);
+  }
+  .actions {
+    display: flex;
+    gap: 8px;
+    flex-wrap: wrap;
+  }
+  .btn {
+    border: none;
+    border-radius: 4px;
+    padding: 6px 12px;
+    font-size: 12px;
+    cursor: pointer;
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    transition: all 0.2s;
+    font-family: inherit;
+  }
+  .btn:hover {
+    transform: translateY(-1px);
+    box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+  }
+  .btn-primary {
+    background: var(--vscode-button-background);
+    color: var(--vscode-button-foreground);
+  }
+  .btn-primary:hover {
+    background: var(--vscode-button-hoverBackground);
+  }
+  .btn-secondary {
+    background: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+  }
+  .btn-secondary:hover {
+    background: var(--vscode-button-secondaryHoverBackground);
+  }
+  .btn-warning {
+    background: #ffc107;
+    color: #212529;
+  }
+  .btn-warning:hover {
+    background: #e0a800;
+  }
+  .icon {
+    font-size: 14px;
+  }
+  .no-files {
+    text-align: center;
+    padding: 40px;
+    color: var(--vscode-descriptionForeground);
+    font-style: italic;
+  }
+`;
+
+export function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, ch => ({ "&":"&amp;", "<":"&lt;", ">":"&gt;", "\"":"&quot;", "'":"&#39;" }[ch]!));
+}
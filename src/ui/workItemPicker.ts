@@ -0,0 +1,51 @@
+import * as vscode from "vscode";
+import { workItemMentions } from "../tfvc";
+
+const RECENT_KEY = "vstfs.recentWorkItems";
+const MAX_RECENT = 20;
+
+interface WorkItemPick extends vscode.QuickPickItem {
+  id: number;
+}
+
+// Asks which work items to associate with a check-in: recently used ones, or IDs typed into the filter box.
+// Returns undefined when cancelled. "#1234" mentions in the comment are pre-selected.
+export async function pickWorkItems(memento: vscode.Memento, comment: string): Promise<number[] | undefined> {
+  const recent = memento.get<number[]>(RECENT_KEY, []);
+  const mentioned = workItemMentions(comment);
+  const known = [...new Set([...mentioned, ...recent])];
+
+  const toItem = (id: number, description?: string): WorkItemPick => ({ label: `#${id}`, description, id });
+  const baseItems = known.map(id => toItem(id, mentioned.includes(id) ? "mentioned in comment" : "recently used"));
+
+  const qp = vscode.window.createQuickPick<WorkItemPick>();
+  qp.title = "Associate Work Items";
+  qp.placeholder = "Type work item IDs (e.g. 1234, 5678) or pick recent ones; Enter to continue";
+  qp.canSelectMany = true;
+  qp.items = baseItems;
+  qp.selectedItems = baseItems.filter(i => mentioned.includes(i.id));
+
+  // Typed IDs show up as extra entries so they can be checked like the recent ones
+  qp.onDidChangeValue(value => {
+    const typed = (value.match(/\d+/g) || []).map(Number).filter(id => !known.includes(id));
+    const selected = qp.selectedItems;
+    const typedItems = typed.map(id => ({ ...toItem(id, "typed"), alwaysShow: true }));
+    qp.items = [...typedItems, ...baseItems];
+    qp.selectedItems = [...selected.filter(s => baseItems.includes(s)), ...typedItems];
+  });
+
+  const result = await new Promise<number[] | undefined>(resolve => {
+    qp.onDidAccept(() => {
+      resolve(qp.selectedItems.map(i => i.id));
+      qp.hide();
+    });
+    qp.onDidHide(() => resolve(undefined));
+    qp.show();
+  });
+  qp.dispose();
+
+  if (result && result.length > 0) {
+    await memento.update(RECENT_KEY, [...new Set([...result, ...recent])].slice(0, MAX_RECENT));
+  }
+  return result;
+}
@@ -1,22 +1,32 @@
 import * as vscode from "vscode";
-import { TFVC } from "../tfvc";
+import { TfvcFolder, TfvcFolders, folderTreeItem } from "../folders";
 
-export class BranchesView implements vscode.TreeDataProvider<string> {
+type BranchNode = TfvcFolder | string;
+
+export class BranchesView implements vscode.TreeDataProvider<BranchNode> {
   private _emitter = new vscode.EventEmitter<void>();
   readonly onDidChangeTreeData = this._emitter.event;
 
-  constructor(private tfvc: TFVC) {}
+  constructor(private folders: TfvcFolders) {}
   refresh() { this._emitter.fire(); }
 
-  getTreeItem(element: string): vscode.TreeItem {
+  getTreeItem(element: BranchNode): vscode.TreeItem {
+    if (element instanceof TfvcFolder) return folderTreeItem(element);
     const item = new vscode.TreeItem(element, vscode.TreeItemCollapsibleState.None);
     item.iconPath = new vscode.ThemeIcon("git-branch");
     return item;
   }
 
-  async getChildren(): Promise<string[]> {
+  async getChildren(element?: BranchNode): Promise<BranchNode[]> {
+    if (element instanceof TfvcFolder) return this.branches(element);
+    if (element) return [];
+    const folders = this.folders.all;
+    return folders.length > 1 ? [...folders] : this.branches(folders[0]);
+  }
+
+  private async branches(folder: TfvcFolder): Promise<string[]> {
     try {
-      return await this.tfvc.listBranches();
+      return await folder.backend.listBranches();
     } catch (e: any) {
       vscode.window.showErrorMessage(`List branches failed: ${e.message || e}`);
       return [];
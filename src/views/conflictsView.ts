@@ -0,0 +1,45 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { TFVC, TFConflict } from "../tfvc";
+
+export class ConflictsView implements vscode.TreeDataProvider<TFConflict> {
+  private _emitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._emitter.event;
+
+  // Folder shown; follows the active folder in multi-root workspaces
+  tfvc: TFVC;
+
+  constructor(tfvc: TFVC) {
+    this.tfvc = tfvc;
+  }
+  refresh() { this._emitter.fire(); }
+
+  getTreeItem(element: TFConflict): vscode.TreeItem {
+    const item = new vscode.TreeItem(path.basename(element.file), vscode.TreeItemCollapsibleState.None);
+    item.description = element.description;
+    item.iconPath = new vscode.ThemeIcon("warning");
+    item.contextValue = `conflict-${element.kind}`;
+    item.resourceUri = vscode.Uri.file(element.file);
+
+    item.tooltip = `${element.file}
+${element.description}${element.sourcePath ? `\nSource: ${element.sourcePath}` : ""}`;
+
+    // Clicking a conflict opens the three-way merge editor
+    item.command = {
+      command: "vstfs.conflicts.merge",
+      title: "Merge",
+      arguments: [element]
+    };
+
+    return item;
+  }
+
+  async getChildren(): Promise<TFConflict[]> {
+    try {
+      return await this.tfvc.conflicts();
+    } catch (e: any) {
+      vscode.window.showErrorMessage(`Conflicts failed: ${e.message || e}`);
+      return [];
+    }
+  }
+}
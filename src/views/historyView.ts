@@ -1,14 +1,21 @@
 import * as vscode from "vscode";
-import { TFVC, TFHistoryItem } from "../tfvc";
+import { TFHistoryItem } from "../tfvc";
+import { TfvcFolder, TfvcFolders, folderTreeItem } from "../folders";
 
-export class HistoryView implements vscode.TreeDataProvider<TFHistoryItem> {
+// Changesets keep their folder so opening one uses that folder's collection
+export type HistoryNode = TfvcFolder | { folder: TfvcFolder; changeset: TFHistoryItem };
+
+export class HistoryView implements vscode.TreeDataProvider<HistoryNode> {
   private _emitter = new vscode.EventEmitter<void>();
   readonly onDidChangeTreeData = this._emitter.event;
 
-  constructor(private tfvc: TFVC) {}
+  constructor(private folders: TfvcFolders) {}
   refresh() { this._emitter.fire(); }
 
-  getTreeItem(element: TFHistoryItem): vscode.TreeItem {
+  getTreeItem(node: HistoryNode): vscode.TreeItem {
+    if (node instanceof TfvcFolder) return folderTreeItem(node);
+    const element = node.changeset;
+
     // Create a more detailed label like Visual Studio
     const label = `C${element.changesetId} — ${element.author}`;
     
@@ -28,26 +35,48 @@ export class HistoryView implements vscode.TreeDataProvider<TFHistoryItem> {
     item.command = {
       command: "vstfs.showChangeset",
       title: "Open Changeset Details",
-      arguments: [element.changesetId]
+      arguments: [element.changesetId, node.folder.root]
     };
     
     // Add tooltip with more details
-    const tooltip = `Changeset C${element.changesetId}
-Author: ${element.author}
-Date: ${element.date.toLocaleString()}
-Files: ${element.files.length}
-Comment: ${element.comment || "No comment"}`;
-    item.tooltip = tooltip;
+    item.tooltip = tooltip(element);
     
     return item;
   }
 
-  async getChildren(): Promise<TFHistoryItem[]> {
+  // The REST backend's history has no file lists; they're fetched per changeset when one is hovered
+  async resolveTreeItem(item: vscode.TreeItem, node: HistoryNode): Promise<vscode.TreeItem> {
+    if (node instanceof TfvcFolder || node.changeset.files.length > 0) return item;
+    const full = await node.folder.backend.changeset(node.changeset.changesetId).catch(() => null);
+    if (full) {
+      node.changeset.files = full.files;
+      item.tooltip = tooltip(node.changeset);
+    }
+    return item;
+  }
+
+  async getChildren(element?: HistoryNode): Promise<HistoryNode[]> {
+    if (element instanceof TfvcFolder) return this.history(element);
+    if (element) return [];
+    const folders = this.folders.all;
+    return folders.length > 1 ? [...folders] : this.history(folders[0]);
+  }
+
+  private async history(folder: TfvcFolder): Promise<HistoryNode[]> {
     try {
-      return await this.tfvc.history(".", 100); // Show more history items
+      const items = await folder.backend.history(".", 100); // Show more history items
+      return items.map(changeset => ({ folder, changeset }));
     } catch (e: any) {
       vscode.window.showErrorMessage(`History failed: ${e.message || e}`);
       return [];
     }
   }
 }
+
+function tooltip(element: TFHistoryItem): string {
+  return `Changeset C${element.changesetId}
+Author: ${element.author}
+Date: ${element.date.toLocaleString()}
+Files: ${element.files.length}
+Comment: ${element.comment || "No comment"}`;
+}
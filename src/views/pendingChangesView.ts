@@ -1,15 +1,25 @@
 import * as vscode from "vscode";
-import { TFVC, TFPendingItem } from "../tfvc";
+import { TFPendingItem } from "../tfvc";
+import { TfvcFolder, TfvcFolders, folderTreeItem } from "../folders";
 
-export class PendingChangesView implements vscode.TreeDataProvider<TFPendingItem> {
+// Folders are only shown as a level of their own when more than one is open
+type PendingNode = TfvcFolder | TFPendingItem;
+
+export class PendingChangesView implements vscode.TreeDataProvider<PendingNode> {
   private _emitter = new vscode.EventEmitter<void>();
   readonly onDidChangeTreeData = this._emitter.event;
 
-  constructor(private tfvc: TFVC) {}
+  constructor(private folders: TfvcFolders) {}
 
   refresh() { this._emitter.fire(); }
 
-  getTreeItem(element: TFPendingItem): vscode.TreeItem {
+  getTreeItem(element: PendingNode): vscode.TreeItem {
+    if (element instanceof TfvcFolder) {
+      const item = folderTreeItem(element);
+      item.description = `${element.store.items.length} change(s)`;
+      return item;
+    }
+
     const item = new vscode.TreeItem(element.file, vscode.TreeItemCollapsibleState.None);
     
     // Set description with action type
@@ -50,12 +60,19 @@ export class PendingChangesView implements vscode.TreeDataProvider<TFPendingItem
     return item;
   }
 
-  async getChildren(): Promise<TFPendingItem[]> {
-    try {
-      return await this.tfvc.pendingChanges();
-    } catch (e: any) {
-      vscode.window.showErrorMessage(`Pending changes failed: ${e.message || e}`);
-      return [];
+  // Served from the shared stores; they're reloaded by refreshPending, not on every redraw
+  async getChildren(element?: PendingNode): Promise<PendingNode[]> {
+    if (element instanceof TfvcFolder) {
+      await element.store.ensureLoaded();
+      return element.store.items;
+    }
+    if (element) return [];
+    const folders = this.folders.all;
+    if (folders.length > 1) {
+      await Promise.all(folders.map(f => f.store.ensureLoaded()));
+      return [...folders];
     }
+    await folders[0].store.ensureLoaded();
+    return folders[0].store.items;
   }
 }
@@ -0,0 +1,56 @@
+import * as vscode from "vscode";
+import { TFShelveset } from "../tfvc";
+import { TfvcBackend } from "../backend";
+
+export class ShelvesetsView implements vscode.TreeDataProvider<TFShelveset> {
+  private _emitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._emitter.event;
+
+  // undefined = current user, "*" = all users, otherwise a specific owner
+  owner: string | undefined;
+
+  // Backend of the folder shown; follows the active folder in multi-root workspaces
+  backend: TfvcBackend;
+
+  constructor(backend: TfvcBackend) {
+    this.backend = backend;
+  }
+  refresh() { this._emitter.fire(); }
+
+  setOwner(owner: string | undefined) {
+    this.owner = owner;
+    this.refresh();
+  }
+
+  getTreeItem(element: TFShelveset): vscode.TreeItem {
+    const item = new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.None);
+
+    const commentPreview = element.comment?.split(/\r?\n/)[0] || "No comment";
+    item.description = `${element.owner} • ${commentPreview}`;
+    item.iconPath = new vscode.ThemeIcon("archive");
+    item.contextValue = "shelveset";
+
+    item.command = {
+      command: "vstfs.openShelveset",
+      title: "Open Shelveset",
+      arguments: [element]
+    };
+
+    item.tooltip = `Shelveset ${element.name}
+Owner: ${element.owner}
+Date: ${element.date.toLocaleString()}
+Comment: ${element.comment || "No comment"}`;
+
+    return item;
+  }
+
+  async getChildren(): Promise<TFShelveset[]> {
+    try {
+      const items = await this.backend.shelvesets(this.owner);
+      return items.sort((a, b) => (b.date.getTime() || 0) - (a.date.getTime() || 0));
+    } catch (e: any) {
+      vscode.window.showErrorMessage(`Shelvesets failed: ${e.message || e}`);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { TFPendingItem } from "../tfvc";
+import { PendingStore, key } from "../pendingStore";
+
+export type TeamGrouping = "user" | "file";
+
+type TeamNode =
+  | { kind: "group"; label: string; items: TFPendingItem[] }
+  | { kind: "item"; item: TFPendingItem }
+  | { kind: "message"; label: string };
+
+// Everyone's pending changes under the mapped serverPath (tf status /user:*), grouped by user or by file
+export class TeamPendingView implements vscode.TreeDataProvider<TeamNode> {
+  private _emitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._emitter.event;
+
+  grouping: TeamGrouping = "user";
+
+  // Store of the folder shown; follows the active folder in multi-root workspaces
+  store: PendingStore;
+
+  constructor(store: PendingStore) {
+    this.store = store;
+  }
+  refresh() { this._emitter.fire(); }
+
+  setGrouping(grouping: TeamGrouping) {
+    this.grouping = grouping;
+    this.refresh();
+  }
+
+  getTreeItem(element: TeamNode): vscode.TreeItem {
+    if (element.kind === "message") {
+      return new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.None);
+    }
+
+    if (element.kind === "group") {
+      const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+      const locks = element.items.filter(isLocked).length;
+      item.description = `${element.items.length} change(s)${locks ? `, ${locks} locked` : ""}`;
+      if (this.grouping === "user") {
+        item.iconPath = new vscode.ThemeIcon("account");
+      } else {
+        item.iconPath = new vscode.ThemeIcon(locks ? "lock" : "file");
+        item.resourceUri = vscode.Uri.file(element.items[0].file);
+        item.tooltip = element.items[0].file;
+        item.contextValue = "teamFile";
+      }
+      return item;
+    }
+
+    const p = element.item;
+    const label = this.grouping === "user" ? path.basename(p.file) : p.user || "Unknown user";
+    const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+    const lock = isLocked(p) ? ` • ${p.lock} lock` : "";
+    item.description = this.grouping === "user"
+      ? `${p.action.toUpperCase()}${lock} • ${path.dirname(p.file)}`
+      : `${p.action.toUpperCase()}${lock}`;
+    item.iconPath = new vscode.ThemeIcon(isLocked(p) ? "lock" : this.grouping === "user" ? "file" : "account");
+    item.tooltip = `${p.user || "Unknown user"}: ${p.action.toUpperCase()}${lock}\n${p.file}`;
+    if (this.grouping === "user") {
+      item.resourceUri = vscode.Uri.file(p.file);
+      item.contextValue = "teamFile";
+      item.command = { command: "vscode.open", title: "Open File", arguments: [vscode.Uri.file(p.file)] };
+    }
+    return item;
+  }
+
+  async getChildren(element?: TeamNode): Promise<TeamNode[]> {
+    if (element) {
+      return element.kind === "group" ? element.items.map(item => ({ kind: "item", item })) : [];
+    }
+    await this.store.ensureLoaded();
+    if (this.store.team.length === 0) return [{ kind: "message", label: "No pending changes in this folder." }];
+    const groups = new Map<string, { label: string; items: TFPendingItem[] }>();
+    for (const p of this.store.team) {
+      const groupKey = this.grouping === "user" ? (p.user || "Unknown user").toLowerCase() : key(p.file);
+      const label = this.grouping === "user" ? p.user || "Unknown user" : path.basename(p.file);
+      const group = groups.get(groupKey) || { label, items: [] };
+      group.items.push(p);
+      groups.set(groupKey, group);
+    }
+    return [...groups.values()]
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map(g => ({ kind: "group", label: g.label, items: g.items }));
+  }
+}
+
+function isLocked(p: TFPendingItem): boolean {
+  return !!p.lock && p.lock !== "none";
+}
@@ -0,0 +1,66 @@
+import * as vscode from "vscode";
+import { TFVC, TFWorkspace, TFMapping } from "../tfvc";
+
+export type WorkspaceNode =
+  | { kind: "workspace"; workspace: TFWorkspace }
+  | { kind: "mapping"; workspace: TFWorkspace; mapping: TFMapping };
+
+// Workspaces on the collection and their working folder mappings
+export class WorkspacesView implements vscode.TreeDataProvider<WorkspaceNode> {
+  private _emitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._emitter.event;
+
+  // Name of the workspace the extension uses (vstfs.workspace)
+  current: string | undefined;
+  // Collection of the active folder in multi-root workspaces
+  tfvc: TFVC;
+
+  constructor(tfvc: TFVC, current: string | undefined) {
+    this.tfvc = tfvc;
+    this.current = current;
+  }
+  refresh() { this._emitter.fire(); }
+
+  getTreeItem(element: WorkspaceNode): vscode.TreeItem {
+    if (element.kind === "workspace") {
+      const ws = element.workspace;
+      const isCurrent = !!this.current && ws.name.toLowerCase() === this.current.toLowerCase();
+      const item = new vscode.TreeItem(ws.name, isCurrent
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed);
+      item.description = [isCurrent ? "current" : "", ws.computer, ws.location].filter(Boolean).join(" • ");
+      item.iconPath = new vscode.ThemeIcon(isCurrent ? "pass-filled" : "vm");
+      item.contextValue = `workspace-${ws.location || "unknown"}`;
+      item.tooltip = `Workspace ${ws.name}
+Owner: ${ws.owner}
+Computer: ${ws.computer}
+Location: ${ws.location || "unknown"}${ws.comment ? `\nComment: ${ws.comment}` : ""}`;
+      return item;
+    }
+
+    const m = element.mapping;
+    const item = new vscode.TreeItem(m.serverPath, vscode.TreeItemCollapsibleState.None);
+    item.description = m.cloaked ? "cloaked" : m.localPath;
+    item.iconPath = new vscode.ThemeIcon(m.cloaked ? "eye-closed" : "folder");
+    item.contextValue = m.cloaked ? "mapping-cloaked" : "mapping";
+    item.tooltip = m.cloaked ? `${m.serverPath} (cloaked)` : `${m.serverPath} → ${m.localPath}`;
+    return item;
+  }
+
+  async getChildren(element?: WorkspaceNode): Promise<WorkspaceNode[]> {
+    if (element) {
+      return element.kind === "workspace"
+        ? element.workspace.mappings.map(mapping => ({ kind: "mapping", workspace: element.workspace, mapping }))
+        : [];
+    }
+    try {
+      const workspaces = await this.tfvc.workspaces();
+      return workspaces
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(workspace => ({ kind: "workspace", workspace }));
+    } catch (e: any) {
+      vscode.window.showErrorMessage(`Workspaces failed: ${e.message || e}`);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// Small XML reader for `tf ... /format:xml` output: elements, attributes, text and CDATA.
+// Comments, processing instructions and DOCTYPEs are skipped; namespaces are kept as part of names.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  // Text directly inside the element, entities decoded
+  text: string;
+}
+
+const START_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Throws on malformed input; returns the document's root element
+export function parseXml(source: string): XmlElement {
+  const document: XmlElement = { name: "", attributes: {}, children: [], text: "" };
+  const stack = [document];
+  let i = 0;
+
+  const skipTo = (marker: string, from: number) => {
+    const end = source.indexOf(marker, from);
+    if (end < 0) throw new Error(`Unterminated XML construct at offset ${from}`);
+    return end + marker.length;
+  };
+
+  while (i < source.length) {
+    const lt = source.indexOf("<", i);
+    const text = source.substring(i, lt < 0 ? source.length : lt);
+    if (stack.length > 1) stack[stack.length - 1].text += decodeEntities(text);
+    if (lt < 0) break;
+
+    if (source.startsWith("<!--", lt)) {
+      i = skipTo("-->", lt + 4);
+    } else if (source.startsWith("<![CDATA[", lt)) {
+      const end = skipTo("]]>", lt + 9);
+      if (stack.length > 1) stack[stack.length - 1].text += source.substring(lt + 9, end - 3);
+      i = end;
+    } else if (source.startsWith("<?", lt)) {
+      i = skipTo("?>", lt + 2);
+    } else if (source.startsWith("<!", lt)) {
+      i = skipTo(">", lt + 2);
+    } else if (source.startsWith("</", lt)) {
+      const end = skipTo(">", lt + 2);
+      const name = source.substring(lt + 2, end - 1).trim();
+      const open = stack[stack.length - 1];
+      if (stack.length < 2 || open.name !== name) {
+        throw new Error(`Unexpected </${name}> at offset ${lt}`);
+      }
+      stack.pop();
+      i = end;
+    } else {
+      START_TAG.lastIndex = lt;
+      const m = START_TAG.exec(source);
+      if (!m) throw new Error(`Malformed XML tag at offset ${lt}`);
+      const element: XmlElement = { name: m[1], attributes: parseAttributes(m[2]), children: [], text: "" };
+      stack[stack.length - 1].children.push(element);
+      if (!m[3]) stack.push(element);
+      i = lt + m[0].length;
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Unclosed <${stack[stack.length - 1].name}>`);
+  if (document.children.length !== 1) throw new Error("XML output has no single root element");
+  return document.children[0];
+}
+
+// Descendants (not the element itself) with a name, compared case-insensitively
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  const wanted = name.toLowerCase();
+  const found: XmlElement[] = [];
+  const visit = (el: XmlElement) => {
+    for (const child of el.children) {
+      if (child.name.toLowerCase() === wanted) found.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return found;
+}
+
+// First present attribute among the given names. Clients differ in casing and separators
+// ("serverItem", "server-item"), so those are ignored when comparing.
+export function attribute(element: XmlElement, ...names: string[]): string | undefined {
+  const normalize = (n: string) => n.toLowerCase().replace(/[-_]/g, "");
+  for (const name of names.map(normalize)) {
+    for (const [key, value] of Object.entries(element.attributes)) {
+      if (normalize(key) === name) return value;
+    }
+  }
+  return undefined;
+}
+
+// Text of the first child element with a name
+export function childText(element: XmlElement, name: string): string | undefined {
+  const wanted = name.toLowerCase();
+  return element.children.find(c => c.name.toLowerCase() === wanted)?.text;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const m of source.matchAll(ATTRIBUTE)) {
+    attributes[m[1]] = decodeEntities(m[2] ?? m[3]);
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.substring(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.substring(1), 10));
+    return ({ amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" } as Record<string, string>)[lower];
+  });
+}